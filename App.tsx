@@ -1,25 +1,56 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
+import { ReadingImporter } from './components/ReadingImporter';
 import { AnalysisResults } from './components/AnalysisResults';
 import { Invoice } from './components/Invoice';
-import { analyzeMeterImage } from './services/geminiService';
-import { AnalysisResult, Tenant, MeterAssignment, AnalysisItem } from './types';
-import { Activity, AlertCircle, Loader2, Settings, Users, FileText, ChevronRight, Plus, X, Trash2, Building, RotateCcw } from 'lucide-react';
+import { EXTRACTORS, DEFAULT_EXTRACTOR_ID, getExtractor } from './services/extractorService';
+import { DEFAULT_MODEL_POLICY } from './services/geminiService';
+import { getBillingWindow } from './services/billingWindowService';
+import { pickBoundaryRows, findRowIndex, applyBoundaryRows } from './services/readingTableService';
+import { AnalysisQueue, QueueHooks, QueueSnapshot, createAnalysisQueue, DEFAULT_QUEUE_SETTINGS, EMPTY_QUEUE_SNAPSHOT } from './services/queueService';
+import { decodeSharePayload } from './services/shareService';
+import { fromBoxArray } from './services/regionService';
+import { suggestAssignment, isConfidentMatch, rememberAlias } from './services/meterMatchService';
+import { buildChecklist, hashFile } from './services/checklistService';
+import { listPeriods, createPeriod, savePeriod, loadPeriodItems, savePeriodItems, toAnalysisItem, defaultPeriodName, listIssuedInvoices, writeIssuedInvoices, saveIssuedInvoice } from './services/storageService';
+import { DEFAULT_INVOICE_PREFIX, DEFAULT_PAYMENT_TERM_DAYS, createIssuedInvoice, findIssuedInvoice, nextInvoiceNumber, reissueInvoice, voidInvoice, withIssuedCopy } from './services/invoiceLedgerService';
+import { loadMeterHistory, getMeterKey, getPreviousEntry } from './services/historyService';
+import { applyPreviousEnd, detectAnomalies, needsReview } from './services/validationService';
+import { DEFAULT_TARIFFS, calculateTariff, getBillingMonth, allocateByUsage, calculateTenantCharges, getInvoiceTotals, getHourlyProfile, combineHourlyProfiles } from './services/tariffService';
+import { DEFAULT_BUILDING, getBuildingTenant, calculateAllocations, reconcile } from './services/allocationService';
+import { normalizeTenants, calculateNetUsage, getParentOptions, getMeterDefinition, applyMeterScaling } from './services/meterService';
+import { PeriodPicker } from './components/PeriodPicker';
+import { TariffSettings } from './components/TariffSettings';
+import { TenantPricingSettings } from './components/TenantPricingSettings';
+import { SharedMeterSettings } from './components/SharedMeterSettings';
+import { ModelSettings } from './components/ModelSettings';
+import { InvoiceChecklist } from './components/InvoiceChecklist';
+import { InvoiceLedger } from './components/InvoiceLedger';
+import { IssuerSettings } from './components/IssuerSettings';
+import { BillingRulesSettings } from './components/BillingRulesSettings';
+import { DEFAULT_BILLING_RULES, getCurrencySymbol, roundLine } from './services/billingRulesService';
+import { EMPTY_ISSUER, formatBusinessNumber, isValidBusinessNumber } from './services/issuerService';
+import { ImportedMeter } from './services/importService';
+import { AnalysisResult, Tenant, MeterAssignment, AnalysisItem, InvoiceData, BillingPeriod, MeterHistory, Tariff, BuildingConfig, SharedAllocationLine, MeterDefinition, ExtractorId, ModelPolicy, QueueSettings, BillingWindow, BoundingBox, MeterAliases, IssuedInvoice, InvoiceIssue, IssuerProfile, BillingRules, ImportMappings } from './types';
+import { Activity, AlertCircle, Loader2, Settings, Users, FileText, ChevronRight, Plus, X, Trash2, Building, RotateCcw, Receipt, Split, Scale, Pause, Play, Square, Clock, Landmark } from 'lucide-react';
 
 
 const DEFAULT_TENANTS: Tenant[] = [
-  { id: 't1', name: 'A Corp', meters: ['1F Main', '1F Server', '1F AC'] },
-  { id: 't2', name: 'B Corp', meters: ['2F Office', '2F Kitchen'] },
-  { id: 't3', name: 'C Corp', meters: ['3F Lab', '3F Warehouse', 'Basement'] },
+  { id: 't1', name: 'A Corp', meters: [{ name: '1F Main' }, { name: '1F Server', parent: '1F Main' }, { name: '1F AC' }] },
+  { id: 't2', name: 'B Corp', meters: [{ name: '2F Office' }, { name: '2F Kitchen' }] },
+  { id: 't3', name: 'C Corp', meters: [{ name: '3F Lab' }, { name: '3F Warehouse' }, { name: 'Basement' }] },
 ];
 
+const formatEta = (ms: number) =>
+  ms < 60000 ? `${Math.max(1, Math.round(ms / 1000))}s` : `${Math.round(ms / 60000)} min`;
+
 const App: React.FC = () => {
   // Config State with Persistence
   const [tenants, setTenants] = useState<Tenant[]>(() => {
     try {
       const saved = localStorage.getItem('app_tenants');
-      return saved ? JSON.parse(saved) : DEFAULT_TENANTS;
+      return saved ? normalizeTenants(JSON.parse(saved)) : DEFAULT_TENANTS;
     } catch (e) {
       return DEFAULT_TENANTS;
     }
@@ -32,6 +63,24 @@ const App: React.FC = () => {
      } catch(e) { return 150; }
   });
 
+  const [tariffs, setTariffs] = useState<Tariff[]>(() => {
+    try {
+      const saved = localStorage.getItem('app_tariffs');
+      return saved ? JSON.parse(saved) : DEFAULT_TARIFFS;
+    } catch (e) {
+      return DEFAULT_TARIFFS;
+    }
+  });
+
+  const [building, setBuilding] = useState<BuildingConfig>(() => {
+    try {
+      const saved = localStorage.getItem('app_building');
+      return saved ? JSON.parse(saved) : DEFAULT_BUILDING;
+    } catch (e) {
+      return DEFAULT_BUILDING;
+    }
+  });
+
   const [showCost, setShowCost] = useState<boolean>(() => {
     try {
       const saved = localStorage.getItem('app_showCost');
@@ -39,6 +88,60 @@ const App: React.FC = () => {
     } catch(e) { return false; }
   });
 
+  const [autoFillStart, setAutoFillStart] = useState<boolean>(() => {
+    try {
+      const saved = localStorage.getItem('app_autoFillStart');
+      return saved ? JSON.parse(saved) : false;
+    } catch(e) { return false; }
+  });
+
+  const [extractorId, setExtractorId] = useState<ExtractorId>(() => {
+    const saved = localStorage.getItem('app_extractor') as ExtractorId | null;
+    return saved && EXTRACTORS.some(e => e.id === saved) ? saved : DEFAULT_EXTRACTOR_ID;
+  });
+
+  const [modelPolicy, setModelPolicy] = useState<ModelPolicy>(() => {
+    try {
+      const saved = localStorage.getItem('app_modelPolicy');
+      return saved ? JSON.parse(saved) : DEFAULT_MODEL_POLICY;
+    } catch(e) { return DEFAULT_MODEL_POLICY; }
+  });
+
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(() => {
+    try {
+      const saved = localStorage.getItem('app_queueSettings');
+      return saved ? { ...DEFAULT_QUEUE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_QUEUE_SETTINGS;
+    } catch(e) { return DEFAULT_QUEUE_SETTINGS; }
+  });
+
+  const [meterAliases, setMeterAliases] = useState<MeterAliases>(() => {
+    try {
+      const saved = localStorage.getItem('app_meterAliases');
+      return saved ? JSON.parse(saved) : {};
+    } catch(e) { return {}; }
+  });
+
+  const [importMappings, setImportMappings] = useState<ImportMappings>(() => {
+    try {
+      const saved = localStorage.getItem('app_importMappings');
+      return saved ? JSON.parse(saved) : {};
+    } catch(e) { return {}; }
+  });
+
+  const [issuer, setIssuer] = useState<IssuerProfile>(() => {
+    try {
+      const saved = localStorage.getItem('app_issuer');
+      return saved ? { ...EMPTY_ISSUER, ...JSON.parse(saved) } : EMPTY_ISSUER;
+    } catch(e) { return EMPTY_ISSUER; }
+  });
+
+  const [billingRules, setBillingRules] = useState<BillingRules>(() => {
+    try {
+      const saved = localStorage.getItem('app_billingRules');
+      return saved ? { ...DEFAULT_BILLING_RULES, ...JSON.parse(saved) } : DEFAULT_BILLING_RULES;
+    } catch(e) { return DEFAULT_BILLING_RULES; }
+  });
+
   const [showConfig, setShowConfig] = useState(false);
   const [newMeterInputs, setNewMeterInputs] = useState<{[key: string]: string}>({});
 
@@ -51,73 +154,269 @@ const App: React.FC = () => {
     localStorage.setItem('app_unitPrice', unitPrice.toString());
   }, [unitPrice]);
 
+  useEffect(() => {
+    localStorage.setItem('app_tariffs', JSON.stringify(tariffs));
+  }, [tariffs]);
+
+  useEffect(() => {
+    localStorage.setItem('app_building', JSON.stringify(building));
+  }, [building]);
+
   useEffect(() => {
     localStorage.setItem('app_showCost', JSON.stringify(showCost));
   }, [showCost]);
 
+  useEffect(() => {
+    localStorage.setItem('app_autoFillStart', JSON.stringify(autoFillStart));
+  }, [autoFillStart]);
+
+  useEffect(() => {
+    localStorage.setItem('app_extractor', extractorId);
+  }, [extractorId]);
+
+  useEffect(() => {
+    localStorage.setItem('app_modelPolicy', JSON.stringify(modelPolicy));
+  }, [modelPolicy]);
+
+  useEffect(() => {
+    localStorage.setItem('app_queueSettings', JSON.stringify(queueSettings));
+  }, [queueSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('app_meterAliases', JSON.stringify(meterAliases));
+  }, [meterAliases]);
+
+  useEffect(() => {
+    localStorage.setItem('app_importMappings', JSON.stringify(importMappings));
+  }, [importMappings]);
+
+  useEffect(() => {
+    localStorage.setItem('app_billingRules', JSON.stringify(billingRules));
+  }, [billingRules]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('app_issuer', JSON.stringify(issuer));
+    } catch (e) {
+      // Large logo or seal images can exceed the storage quota
+      console.error("Failed to save the issuer profile", e);
+    }
+  }, [issuer]);
+
   // App State
   const [items, setItems] = useState<AnalysisItem[]>([]);
-  const [isAnalyzingAll, setIsAnalyzingAll] = useState(false);
+  const [queueState, setQueueState] = useState<QueueSnapshot>(EMPTY_QUEUE_SNAPSHOT);
+  const isAnalyzingAll = queueState.running.length + queueState.pending.length > 0;
   const [activeTab, setActiveTab] = useState<'analysis' | 'invoice'>('analysis');
   const [isSharedView, setIsSharedView] = useState(false);
 
+  // Billing Period State (persisted in IndexedDB, skipped for shared links)
+  const [isShareLink] = useState(() => new URLSearchParams(window.location.search).has('share'));
+  const [periods, setPeriods] = useState<BillingPeriod[]>([]);
+  const [activePeriodId, setActivePeriodId] = useState<string>('');
+  const [loadedPeriodId, setLoadedPeriodId] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [meterHistory, setMeterHistory] = useState<MeterHistory>({});
+  // Allocations carried in a share link (the reader has no building config)
+  const [sharedAllocations, setSharedAllocations] = useState<Record<string, Omit<SharedAllocationLine, 'cost'>[]>>({});
+  const [sharedIssue, setSharedIssue] = useState<InvoiceIssue | undefined>(undefined);
+  const [sharedIssuer, setSharedIssuer] = useState<IssuerProfile | undefined>(undefined);
+  const [sharedRules, setSharedRules] = useState<BillingRules | undefined>(undefined);
+  const [ledger, setLedger] = useState<IssuedInvoice[]>([]);
+
   // Check for shared data in URL on mount
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const shareData = params.get('share');
 
-    if (shareData) {
-      try {
-        const decoded = JSON.parse(decodeURIComponent(shareData));
-        // Structure: { t: tenantName, p: unitPrice, i: [ { n: name, s: startVal, e: endVal, u: usage, sd: startDate, ed: endDate, img?: base64 } ] }
-        
-        const sharedTenantId = 'shared-tenant';
-        
-        // 1. Set Unit Price & Show Cost if price exists
-        if (decoded.p) {
-          setUnitPrice(Number(decoded.p));
-          setShowCost(true);
-        }
+    if (!shareData) return;
 
-        // 2. Setup Tenant
-        const sharedTenant: Tenant = {
-          id: sharedTenantId,
-          name: decoded.t || 'Shared Invoice',
-          meters: decoded.i.map((item: any) => item.n)
-        };
-        setTenants([sharedTenant]);
-
-        // 3. Reconstruct Items
-        const reconstructedItems: AnalysisItem[] = decoded.i.map((item: any, idx: number) => {
-          return {
-            id: `shared-${idx}`,
-            // We use a dummy file. If img is missing, the invoice component will handle the empty state.
-            file: new File([""], "Evidence_On_File", { type: "text/plain" }), 
-            status: 'success',
-            isShared: true,
-            thumbnailUrl: item.img ? `data:image/jpeg;base64,${item.img}` : undefined,
-            assignment: {
-              tenantId: sharedTenantId,
-              meterName: item.n
-            },
-            result: {
-              startReading: { value: item.s, date: item.sd },
-              endReading: { value: item.e, date: item.ed },
-              usage: item.u
-            }
-          };
+    decodeSharePayload(shareData).then(decoded => {
+      // Structure: { t: tenantName, p: unitPrice, i: [ { n: name, s: startVal, e: endVal, u: usage, sd: startDate, ed: endDate, img?: base64 } ] }
+      
+      const sharedTenantId = 'shared-tenant';
+      
+      // 1. Set Unit Price & Show Cost if price exists
+      if (decoded.p) {
+        setUnitPrice(Number(decoded.p));
+        setShowCost(true);
+      }
+
+      // 2. Setup Tenant (and its tariff, if the bill used one)
+      if (decoded.tf) {
+        setTariffs([decoded.tf]);
+        setShowCost(true);
+      }
+      const sharedTenant: Tenant = {
+        id: sharedTenantId,
+        name: decoded.t || 'Shared Invoice',
+        meters: decoded.i.map(item => ({ name: item.n, parent: item.pa })),
+        tariffId: decoded.tf?.id,
+        extraCharges: decoded.x,
+        registrationNumber: decoded.br,
+        vatExempt: decoded.vx === 1 || undefined
+      };
+      if (decoded.bl) setSharedRules({ ...DEFAULT_BILLING_RULES, ...decoded.bl });
+      setTenants([sharedTenant]);
+      if (decoded.lp) {
+        setSharedIssuer({
+          companyName: decoded.lp.n,
+          registrationNumber: decoded.lp.r || '',
+          representative: decoded.lp.rp || '',
+          address: decoded.lp.ad || '',
+          bankAccount: decoded.lp.b || ''
         });
+      }
+      if (decoded.no && decoded.is && decoded.du) {
+        setSharedIssue({ number: decoded.no, issueDate: decoded.is, dueDate: decoded.du });
+      }
+      if (decoded.a) {
+        setSharedAllocations({
+          [sharedTenantId]: decoded.a.map(a => ({ meterName: a.n, method: a.m, share: a.sh, usage: a.u }))
+        });
+      }
 
-        setItems(reconstructedItems);
-        setIsSharedView(true);
-        setActiveTab('invoice');
-        
+      // 3. Reconstruct Items
+      const reconstructedItems: AnalysisItem[] = decoded.i.map((item, idx) => {
+        return {
+          id: `shared-${idx}`,
+          // We use a dummy file. If img is missing, the invoice component will handle the empty state.
+          file: new File([""], "Evidence_On_File", { type: "text/plain" }), 
+          status: 'success',
+          isShared: true,
+          imported: item.im === 1,
+          thumbnailUrl: item.img ? `data:image/jpeg;base64,${item.img}` : undefined,
+          previousUsage: item.pu,
+          assignment: {
+            tenantId: sharedTenantId,
+            meterName: item.n
+          },
+          result: {
+            startReading: { value: item.s, date: item.sd },
+            endReading: { value: item.e, date: item.ed },
+            usage: item.u,
+            multiplier: item.mu,
+            rows: item.dr?.map(([date, value]) => ({ date, value })),
+            regions: item.rg ? { start: fromBoxArray(item.rg[0]), end: fromBoxArray(item.rg[1]) } : undefined
+          }
+        };
+      });
+
+      setItems(reconstructedItems);
+      setIsSharedView(true);
+      setActiveTab('invoice');
+    }).catch(e => {
+      console.error("Failed to parse shared data", e);
+      // Don't alert here to avoid blocking UI on load, just fail silently or show a toast if we had one global
+    });
+  }, []);
+
+  // Load billing periods on mount
+  useEffect(() => {
+    if (isShareLink) return;
+
+    (async () => {
+      try {
+        let list = await listPeriods();
+        if (list.length === 0) {
+          list = [await createPeriod(defaultPeriodName())];
+        }
+        const savedId = localStorage.getItem('app_activePeriodId');
+        const initial = list.find(p => p.id === savedId) || list.find(p => p.status === 'open') || list[0];
+        setPeriods(list);
+        setActivePeriodId(initial.id);
       } catch (e) {
-        console.error("Failed to parse shared data", e);
-        // Don't alert here to avoid blocking UI on load, just fail silently or show a toast if we had one global
+        console.error("Failed to load billing periods", e);
       }
-    }
-  }, []);
+    })();
+
+    listIssuedInvoices()
+      .then(setLedger)
+      .catch(e => console.error("Failed to load invoice ledger", e));
+  }, [isShareLink]);
+
+  // Load the items of the active period whenever it changes
+  useEffect(() => {
+    if (!activePeriodId) return;
+    localStorage.setItem('app_activePeriodId', activePeriodId);
+
+    let cancelled = false;
+    loadPeriodItems(activePeriodId).then(stored => {
+      if (cancelled) return;
+      setItems(prev => {
+        prev.forEach(item => {
+          if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+        });
+        return stored.map(toAnalysisItem);
+      });
+      setLoadedPeriodId(activePeriodId);
+    }).catch(e => {
+      console.error("Failed to load period items", e);
+    });
+
+    return () => { cancelled = true; };
+  }, [activePeriodId]);
+
+  // Readings of earlier periods, for month-over-month comparison
+  useEffect(() => {
+    if (!activePeriodId) return;
+
+    let cancelled = false;
+    loadMeterHistory(activePeriodId)
+      .then(history => { if (!cancelled) setMeterHistory(history); })
+      .catch(e => console.error("Failed to load meter history", e));
+
+    return () => { cancelled = true; };
+  }, [activePeriodId, periods]);
+
+  // Re-scale existing readings when a meter's multiplier or unit changes in Settings
+  useEffect(() => {
+    if (isShareLink) return;
+    setItems(prev => {
+      let changed = false;
+      const next = prev.map(item => {
+        if (!item.result) return item;
+        const scaled = applyMeterScaling(item.result, getMeterDefinition(tenants, item.assignment));
+        if (scaled.usage === item.result.usage && scaled.multiplier === item.result.multiplier && scaled.rawUnit === item.result.rawUnit) {
+          return item;
+        }
+        changed = true;
+        return { ...item, result: withWarnings(scaled, item.assignment) };
+      });
+      return changed ? next : prev;
+    });
+  }, [tenants, isShareLink]);
+
+  // Re-pick rows and re-check dates when the run's window or a tenant's cycle day changes
+  const windowKey = JSON.stringify([activePeriodId, periods.find(p => p.id === activePeriodId)?.window, tenants.map(t => t.billingDay)]);
+  useEffect(() => {
+    if (isShareLink) return;
+    setItems(prev => {
+      let changed = false;
+      const next = prev.map(item => {
+        if (!item.result) return item;
+        const updated = withWarnings(withWindowRows(item.result, item.assignment), item.assignment);
+        if (JSON.stringify(updated) === JSON.stringify(item.result)) return item;
+        changed = true;
+        return { ...item, result: updated };
+      });
+      return changed ? next : prev;
+    });
+  }, [windowKey, isShareLink]);
+
+  // Save items of the active period (debounced)
+  useEffect(() => {
+    if (!loadedPeriodId || loadedPeriodId !== activePeriodId) return;
+
+    const timer = setTimeout(() => {
+      setIsSaving(true);
+      savePeriodItems(loadedPeriodId, items)
+        .catch(e => console.error("Failed to save period items", e))
+        .finally(() => setIsSaving(false));
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [items, loadedPeriodId, activePeriodId]);
 
   // Cleanup object URLs on unmount
   useEffect(() => {
@@ -135,7 +434,7 @@ const App: React.FC = () => {
       a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
     );
 
-    const newItems: AnalysisItem[] = sortedFiles.map(file => ({
+    const newItems: AnalysisItem[] = sortedFiles.map(file => autoAssign({
       id: Math.random().toString(36).substr(2, 9),
       file,
       previewUrl: URL.createObjectURL(file),
@@ -145,53 +444,240 @@ const App: React.FC = () => {
     setItems(prev => [...prev, ...newItems]);
   };
 
+  // Exported readings skip the extractor but take the same window, history and multiplier steps
+  const handleReadingsImport = (meters: ImportedMeter[]) => {
+    const newItems: AnalysisItem[] = meters.map(({ file, result }) => {
+      const item = autoAssign({
+        id: Math.random().toString(36).substr(2, 9),
+        file,
+        status: 'success',
+        imported: true,
+        assignment: { tenantId: '', meterName: '' }
+      }, result.meterLabel);
+      const { assignment } = item;
+      return { ...item, result: withWarnings(withMultiplier(withAutoFilledStart(withWindowRows(result, assignment), assignment), assignment), assignment) };
+    });
+    setItems(prev => [...prev, ...newItems]);
+  };
+
+  // Hash image contents so the same screenshot uploaded twice is caught before invoicing
+  const hashingRef = useRef(new Set<string>());
+  useEffect(() => {
+    items.forEach(item => {
+      if (item.contentHash || item.isShared || item.file.size === 0 || hashingRef.current.has(item.id)) return;
+      hashingRef.current.add(item.id);
+      hashFile(item.file)
+        .then(contentHash => setItems(prev => prev.map(i => i.id === item.id ? { ...i, contentHash } : i)))
+        .catch(e => console.error("Failed to hash image", e))
+        .finally(() => hashingRef.current.delete(item.id));
+    });
+  }, [items]);
+
   const handleRemoveImage = (index: number) => {
     const itemToRemove = items[index];
+    queueRef.current?.cancel(itemToRemove.id);
     if (itemToRemove.previewUrl) URL.revokeObjectURL(itemToRemove.previewUrl);
     setItems(prev => prev.filter((_, i) => i !== index));
   };
 
   const handleClearAll = () => {
+    queueRef.current?.cancelAll();
     items.forEach(item => {
       if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
     });
     setItems([]);
   };
 
-  const analyzeItem = async (item: AnalysisItem) => {
-    if (item.status === 'success' || item.status === 'analyzing') return;
+  const getHistory = (assignment: MeterAssignment) =>
+    assignment.tenantId && assignment.meterName
+      ? meterHistory[getMeterKey(assignment.tenantId, assignment.meterName)]
+      : undefined;
+
+  const activePeriod = periods.find(p => p.id === activePeriodId);
+
+  // Per-tenant lease cycle, else the run's window, else undefined (most recent complete month)
+  const getWindow = (assignment: MeterAssignment) =>
+    getBillingWindow(activePeriod, tenants.find(t => t.id === assignment.tenantId));
+
+  // With the full reading table, bill the rows that match the window
+  const withWindowRows = (result: AnalysisResult, assignment: MeterAssignment): AnalysisResult => {
+    const window = getWindow(assignment);
+    const rows = result.rows || [];
+    const boundary = window ? pickBoundaryRows(rows, window) : null;
+    if (!boundary) return result;
+    const startIdx = findRowIndex(rows, boundary.start);
+    const endIdx = findRowIndex(rows, boundary.end);
+    if (startIdx === findRowIndex(rows, result.startReading) && endIdx === findRowIndex(rows, result.endReading)) return result;
+    return applyBoundaryRows(result, startIdx, endIdx);
+  };
+
+  // When enabled, the start reading comes from last period's end reading for the same meter
+  const withAutoFilledStart = (result: AnalysisResult, assignment: MeterAssignment): AnalysisResult => {
+    if (!autoFillStart) return result;
+    const previous = getPreviousEntry(getHistory(assignment));
+    return previous ? applyPreviousEnd(result, previous) : result;
+  };
+
+  // Apply the assigned meter's CT multiplier to the register values
+  const withMultiplier = (result: AnalysisResult, assignment: MeterAssignment): AnalysisResult =>
+    applyMeterScaling(result, getMeterDefinition(tenants, assignment));
+
+  // Re-run anomaly checks, now including the meter's usage history
+  const withWarnings = (result: AnalysisResult, assignment: MeterAssignment): AnalysisResult => ({
+    ...result,
+    warnings: detectAnomalies(result, getHistory(assignment), getWindow(assignment))
+  });
+
+  // Unassigned items, and ones we assigned ourselves, take the best match for the screen label and file name.
+  // Confident matches are applied; the rest are kept as a suggestion for the reviewer.
+  const autoAssign = (item: AnalysisItem, meterLabel?: string): AnalysisItem => {
+    if (item.assignment.tenantId && !item.suggestion?.applied) return item;
+    const suggestion = suggestAssignment(assignableTenants, meterAliases, meterLabel, item.file.name);
+    if (!suggestion) return item;
+    if (isConfidentMatch(suggestion)) return { ...item, assignment: suggestion.assignment, suggestion: { ...suggestion, applied: true } };
+    return item.suggestion?.applied ? item : { ...item, suggestion };
+  };
+
+  // The queue outlives renders, so it reads the latest items and analysis settings through refs
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
 
-    setItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'analyzing', error: undefined } : i));
+  const runAnalysisRef = useRef<QueueHooks['run']>(async () => {});
+  runAnalysisRef.current = async (id, signal, beforeRequest) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item) throw new Error("Item was removed.");
+    const extracted = await getExtractor(extractorId).extract(item.file, { modelPolicy, signal, beforeRequest, window: getWindow(item.assignment), crop: item.crop });
+    if (signal.aborted) return;
+    setItems(prev => prev.map(i => {
+      if (i.id !== id) return i;
+      const assigned = autoAssign(i, extracted.meterLabel);
+      const { assignment } = assigned;
+      return { ...assigned, status: 'success', error: undefined, result: withWarnings(withMultiplier(withAutoFilledStart(withWindowRows(extracted, assignment), assignment), assignment), assignment) };
+    }));
+  };
+
+  const setItemStatus = (id: string, status: AnalysisItem['status'], error?: string) => {
+    setItems(prev => prev.map(i => i.id === id ? { ...i, status, error } : i));
+  };
+
+  const queueRef = useRef<AnalysisQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createAnalysisQueue({
+      run: (id, signal, beforeRequest) => runAnalysisRef.current(id, signal, beforeRequest),
+      onStart: (id) => setItemStatus(id, 'analyzing'),
+      onRequeue: (id, err, attempt) => setItemStatus(id, 'queued', `Attempt ${attempt} failed, retrying: ${err.message || err}`),
+      onFail: (id, err) => setItemStatus(id, 'error', err.message || "Analysis failed"),
+      onCancel: (id) => setItemStatus(id, 'idle'),
+      onChange: setQueueState
+    }, queueSettings);
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    queue.setSettings(queueSettings);
+  }, [queueSettings]);
+
+  useEffect(() => () => queue.cancelAll(), []);
+
+  const enqueueItems = (ids: string[]) => {
+    if (ids.length === 0) return;
+    const queued = new Set(ids);
+    setItems(prev => prev.map(i => queued.has(i.id) ? { ...i, status: 'queued', error: undefined } : i));
+    queue.enqueue(ids);
+  };
 
+  const handleRerunWithCrop = (id: string, crop?: BoundingBox) => {
+    setItems(prev => prev.map(i => i.id === id ? { ...i, crop } : i));
+    // The queue may start this job before the next render refreshes the ref
+    itemsRef.current = itemsRef.current.map(i => i.id === id ? { ...i, crop } : i);
+    enqueueItems([id]);
+  };
+
+  const handleAnalyzeAll = () => {
+    enqueueItems(items.filter(i => i.status === 'idle' || i.status === 'error').map(i => i.id));
+  };
+
+  const handleUpdateResult = (id: string, updatedResult: AnalysisResult) => {
+    setItems(prev => prev.map(i => i.id === id ? { ...i, result: withWarnings(withMultiplier(updatedResult, i.assignment), i.assignment) } : i));
+  };
+
+  const handleUpdateAssignment = (id: string, assignment: MeterAssignment) => {
+     const label = items.find(i => i.id === id)?.result?.meterLabel;
+     setMeterAliases(prev => rememberAlias(prev, label, assignment));
+     setItems(prev => prev.map(i => i.id === id ? {
+       ...i,
+       assignment,
+       suggestion: undefined,
+       result: i.result ? withWarnings(withMultiplier(withAutoFilledStart(withWindowRows(i.result, assignment), assignment), assignment), assignment) : i.result
+     } : i));
+  };
+
+  // --- Billing Period Handlers ---
+  const flushActivePeriod = async () => {
+    if (!loadedPeriodId || loadedPeriodId !== activePeriodId) return;
     try {
-      const result = await analyzeMeterImage(item.file);
-      setItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'success', result } : i));
-    } catch (err: any) {
-      setItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'error', error: err.message || "Analysis failed" } : i));
+      await savePeriodItems(loadedPeriodId, items);
+    } catch (e) {
+      console.error("Failed to save period items", e);
     }
   };
 
-  const handleAnalyzeAll = async () => {
-    setIsAnalyzingAll(true);
-    const idleItems = items.filter(i => i.status === 'idle' || i.status === 'error');
-    
-    // CHANGE: Run sequentially (one by one) instead of parallel to avoid hitting API Rate Limits (Quota)
-    // Free tier allows ~15 requests per minute, but burst requests (Promise.all) often trigger 429 errors.
-    for (const item of idleItems) {
-      await analyzeItem(item);
-      // Add a small 1-second delay between requests to be gentle on the API
-      await new Promise(resolve => setTimeout(resolve, 1000));
+  const handleSelectPeriod = async (periodId: string) => {
+    if (periodId === activePeriodId || isAnalyzingAll) return;
+    await flushActivePeriod();
+    setLoadedPeriodId('');
+    setActivePeriodId(periodId);
+  };
+
+  const handleCreatePeriod = async () => {
+    if (isAnalyzingAll) return;
+    const name = window.prompt("Name for the new billing period:", defaultPeriodName())?.trim();
+    if (!name) return;
+
+    await flushActivePeriod();
+    try {
+      const period = await createPeriod(name);
+      setPeriods(prev => [period, ...prev]);
+      setLoadedPeriodId('');
+      setActivePeriodId(period.id);
+    } catch (e) {
+      console.error("Failed to create period", e);
+      alert("Could not create the billing period.");
     }
-    
-    setIsAnalyzingAll(false);
   };
 
-  const handleUpdateResult = (id: string, updatedResult: AnalysisResult) => {
-    setItems(prev => prev.map(i => i.id === id ? { ...i, result: updatedResult } : i));
+  const updatePeriodStatus = async (periodId: string, status: BillingPeriod['status']) => {
+    const period = periods.find(p => p.id === periodId);
+    if (!period) return;
+    const updated = { ...period, status, updatedAt: Date.now() };
+    try {
+      await savePeriod(updated);
+      setPeriods(prev => prev.map(p => p.id === periodId ? updated : p));
+    } catch (e) {
+      console.error("Failed to update period", e);
+    }
   };
 
-  const handleUpdateAssignment = (id: string, assignment: MeterAssignment) => {
-     setItems(prev => prev.map(i => i.id === id ? { ...i, assignment } : i));
+  const handleUpdatePeriodWindow = async (periodId: string, window?: BillingWindow) => {
+    const period = periods.find(p => p.id === periodId);
+    if (!period) return;
+    const updated = { ...period, window, updatedAt: Date.now() };
+    setPeriods(prev => prev.map(p => p.id === periodId ? updated : p));
+    try {
+      await savePeriod(updated);
+    } catch (e) {
+      console.error("Failed to update period", e);
+    }
+  };
+
+  const handleArchivePeriod = (periodId: string) => {
+    if (confirm("Archive this billing period? You can reopen it later from the period list.")) {
+      updatePeriodStatus(periodId, 'archived');
+    }
+  };
+
+  const handleReopenPeriod = (periodId: string) => {
+    updatePeriodStatus(periodId, 'open');
   };
 
   // --- Tenant Configuration Handlers ---
@@ -212,8 +698,8 @@ const App: React.FC = () => {
     if (!name) return;
 
     const newTenants = [...tenants];
-    if (!newTenants[tenantIndex].meters.includes(name)) {
-      newTenants[tenantIndex].meters.push(name);
+    if (!newTenants[tenantIndex].meters.some(m => m.name === name)) {
+      newTenants[tenantIndex].meters.push({ name });
       setTenants(newTenants);
       setNewMeterInputs(prev => ({ ...prev, [tenantId]: '' }));
     }
@@ -221,57 +707,256 @@ const App: React.FC = () => {
 
   const handleRemoveMeter = (tenantIndex: number, meterIndex: number) => {
     const newTenants = [...tenants];
-    newTenants[tenantIndex].meters.splice(meterIndex, 1);
+    const [removed] = newTenants[tenantIndex].meters.splice(meterIndex, 1);
+    // Children of the removed meter become top-level meters
+    newTenants[tenantIndex].meters = newTenants[tenantIndex].meters.map(m =>
+      m.parent === removed?.name ? { name: m.name } : m
+    );
+    setTenants(newTenants);
+  };
+
+  const handleUpdateMeter = (tenantIndex: number, meterIndex: number, patch: Partial<MeterDefinition>) => {
+    const newTenants = [...tenants];
+    newTenants[tenantIndex] = {
+      ...newTenants[tenantIndex],
+      meters: newTenants[tenantIndex].meters.map((m, i) => i === meterIndex ? { ...m, ...patch } : m)
+    };
     setTenants(newTenants);
   };
 
   const handleResetConfig = () => {
     if (confirm("Are you sure you want to reset all settings to default? This will remove your custom companies and meters.")) {
       setTenants(DEFAULT_TENANTS);
+      setTariffs(DEFAULT_TARIFFS);
+      setBuilding(DEFAULT_BUILDING);
       setUnitPrice(150);
       setShowCost(false);
+      setAutoFillStart(false);
+      setExtractorId(DEFAULT_EXTRACTOR_ID);
+      setModelPolicy(DEFAULT_MODEL_POLICY);
+      setQueueSettings(DEFAULT_QUEUE_SETTINGS);
+      setMeterAliases({});
+      setImportMappings({});
+      setIssuer(EMPTY_ISSUER);
+      setBillingRules(DEFAULT_BILLING_RULES);
       localStorage.removeItem('app_tenants');
       localStorage.removeItem('app_unitPrice');
+      localStorage.removeItem('app_tariffs');
+      localStorage.removeItem('app_building');
       localStorage.removeItem('app_showCost');
+      localStorage.removeItem('app_autoFillStart');
+      localStorage.removeItem('app_extractor');
+      localStorage.removeItem('app_modelPolicy');
+      localStorage.removeItem('app_queueSettings');
+      localStorage.removeItem('app_meterAliases');
+      localStorage.removeItem('app_importMappings');
+      localStorage.removeItem('app_issuer');
+      localStorage.removeItem('app_billingRules');
     }
   };
 
   const pendingCount = items.filter(i => i.status === 'idle').length;
   const hasResults = items.some(i => i.status === 'success');
+  const reviewCount = items.filter(i => i.status === 'success' && needsReview(i.result)).length;
 
-  // Group data for invoices
-  const invoiceData = useMemo(() => {
+  // Tenants plus the building pseudo-tenant, for assigning readings
+  const assignableTenants = useMemo(() => {
+    const buildingTenant = isSharedView ? null : getBuildingTenant(building);
+    return buildingTenant ? [...tenants, buildingTenant] : tenants;
+  }, [tenants, building, isSharedView]);
+
+  const checklist = useMemo(() => buildChecklist(assignableTenants, items), [assignableTenants, items]);
+
+  // Checklist issues the user chose to invoice with anyway; any new issue blocks again
+  const [overriddenIssues, setOverriddenIssues] = useState<string[]>([]);
+  const checklistOverridden = checklist.issueKeys.every(key => overriddenIssues.includes(key));
+  const invoicesBlocked = !isSharedView && checklist.issueCount > 0 && !checklistOverridden;
+
+  // Readings that can go on an invoice
+  const readyItems = useMemo(() => items.filter(item =>
+    item.status === 'success' && 
+    item.result && 
+    !needsReview(item.result)
+  ), [items]);
+
+  const allocations = useMemo(() =>
+    isSharedView ? sharedAllocations : calculateAllocations(building, tenants, readyItems),
+  [isSharedView, sharedAllocations, building, tenants, readyItems]);
+
+  const reconciliation = useMemo(() => reconcile(building, tenants, readyItems), [building, tenants, readyItems]);
+
+  // A share link carries the sender's rules; without them the reader sees no costs anyway
+  const rules = isSharedView ? sharedRules ?? DEFAULT_BILLING_RULES : billingRules;
+  const currencySymbol = getCurrencySymbol(rules);
+
+  // Invoices for the current readings, rates and rules
+  const liveInvoices = useMemo(() => {
     const data = tenants.map(tenant => {
-      const tenantItems = items.filter(item => 
-        item.status === 'success' && 
-        item.result && 
-        item.assignment.tenantId === tenant.id
-      );
-
-      if (tenantItems.length === 0) return null;
-
-      const itemsWithCost = tenantItems.map(item => ({
-        meterName: item.assignment.meterName,
-        result: item.result!,
-        file: item.file,
-        cost: Math.floor(item.result!.usage * unitPrice),
-        isShared: item.isShared,
-        thumbnailUrl: item.thumbnailUrl
-      }));
-
-      const totalUsage = itemsWithCost.reduce((acc, curr) => acc + curr.result.usage, 0);
-      const totalCost = itemsWithCost.reduce((acc, curr) => acc + curr.cost, 0);
-
-      return {
-        tenant,
-        items: itemsWithCost,
-        totalUsage,
-        totalCost
-      };
+      const rate = tenant.rateOverride ?? unitPrice;
+      const tenantItems = readyItems.filter(item => item.assignment.tenantId === tenant.id);
+      const tenantAllocations = allocations[tenant.id] || [];
+
+      if (tenantItems.length === 0 && tenantAllocations.length === 0) return null;
+
+      const netUsage = calculateNetUsage(tenant, tenantItems);
+      const itemsWithCost = tenantItems.map(item => {
+        const history = meterHistory[getMeterKey(tenant.id, item.assignment.meterName)];
+        return {
+          meterName: item.assignment.meterName,
+          result: item.result!,
+          netUsage: netUsage[item.id],
+          file: item.file,
+          imported: item.imported,
+          cost: roundLine(netUsage[item.id] * rate, rules), // Flat rate; replaced below when a tariff applies
+          isShared: item.isShared,
+          thumbnailUrl: item.thumbnailUrl,
+          history,
+          previousUsage: item.previousUsage ?? getPreviousEntry(history)?.result.usage
+        };
+      });
+
+      const sharedItems: SharedAllocationLine[] = tenantAllocations.map(a => ({ ...a, cost: roundLine(a.usage * rate, rules) }));
+
+      const totalUsage = parseFloat((
+        itemsWithCost.reduce((acc, curr) => acc + curr.netUsage, 0) +
+        sharedItems.reduce((acc, curr) => acc + curr.usage, 0)
+      ).toFixed(2));
+
+      // A negotiated rate overrides any tariff assignment
+      const tariff = tenant.rateOverride === undefined && tenant.tariffId
+        ? tariffs.find(t => t.id === tenant.tariffId)
+        : undefined;
+
+      let invoice: Omit<InvoiceData, 'totals'>;
+      if (tariff) {
+        // Tiers apply to the tenant's total usage; the energy charge is then split across meters
+        const billingDate = (tenantItems[0] || readyItems[0])?.result?.endReading.date;
+        // Time-of-use bands follow the hours each meter's usage fell in; sub-meters are netted
+        // out of a parent's kWh but not out of its hourly shape
+        const profile = combineHourlyProfiles([
+          ...itemsWithCost.map(i => ({ usage: i.netUsage, profile: getHourlyProfile(i.result) })),
+          ...sharedItems.map(s => ({ usage: s.usage }))
+        ]);
+        const calc = calculateTariff(tariff, totalUsage, getBillingMonth(billingDate), rules, profile);
+        const shares = allocateByUsage(calc.energyCharge, [
+          ...itemsWithCost.map(i => i.netUsage),
+          ...sharedItems.map(s => s.usage)
+        ], rules.roundingScope === 'line' ? rules.roundingUnit : 1);
+        invoice = {
+          tenant,
+          items: itemsWithCost.map((item, i) => ({ ...item, cost: shares[i] })),
+          sharedItems: sharedItems.map((item, i) => ({ ...item, cost: shares[itemsWithCost.length + i] })),
+          totalUsage,
+          totalCost: calc.total,
+          tariff,
+          seasonName: calc.season?.name,
+          charges: calc.lines
+        };
+      } else {
+        invoice = {
+          tenant,
+          items: itemsWithCost,
+          sharedItems,
+          totalUsage,
+          totalCost: itemsWithCost.reduce((acc, curr) => acc + curr.cost, 0) +
+            sharedItems.reduce((acc, curr) => acc + curr.cost, 0),
+          unitRate: rate
+        };
+      }
+
+      const adjustments = calculateTenantCharges(tenant.extraCharges, invoice.totalCost, rules);
+      if (adjustments.length > 0) {
+        invoice.adjustments = adjustments;
+        invoice.totalCost += adjustments.reduce((acc, curr) => acc + curr.amount, 0);
+      }
+
+      // A share link is itself a copy of the invoice as sent
+      if (isSharedView && sharedIssue) invoice.issued = sharedIssue;
+
+      return { ...invoice, totals: getInvoiceTotals(invoice.totalCost, rules, tenant.vatExempt) };
     }).filter(Boolean); // Remove nulls
 
-    return data as any[]; 
-  }, [items, tenants, unitPrice]);
+    return data as InvoiceData[];
+  }, [readyItems, allocations, tenants, unitPrice, tariffs, meterHistory, isSharedView, sharedIssue, rules]);
+
+  // Issued invoices are shown as issued; drafts use the live figures
+  const invoiceData = useMemo(() => {
+    if (isSharedView) return liveInvoices;
+    return tenants
+      .map(tenant => withIssuedCopy(
+        liveInvoices.find(i => i.tenant.id === tenant.id),
+        findIssuedInvoice(ledger, activePeriodId, tenant.id)
+      ))
+      .filter((invoice): invoice is InvoiceData => !!invoice);
+  }, [liveInvoices, tenants, ledger, activePeriodId, isSharedView]);
+
+  // Open checklist issues hold back drafts only; issued invoices are frozen in the ledger
+  const visibleInvoices = useMemo(() =>
+    invoicesBlocked ? invoiceData.filter(invoice => invoice.issued) : invoiceData,
+  [invoiceData, invoicesBlocked]);
+
+  // --- Invoice Ledger Handlers ---
+  const issueInvoice = async (invoice: InvoiceData) => {
+    const period = periods.find(p => p.id === activePeriodId);
+    if (!period) return;
+    const [issued] = await writeIssuedInvoices(existing => [
+      createIssuedInvoice(existing, invoice, period, { rules: billingRules, issuer }, building.invoicePrefix || DEFAULT_INVOICE_PREFIX)
+    ]);
+    setLedger(prev => [...prev, issued]);
+  };
+
+  const updateLedgerEntry = async (entry: IssuedInvoice) => {
+    await saveIssuedInvoice(entry);
+    setLedger(prev => prev.map(i => i.id === entry.id ? entry : i));
+  };
+
+  const handleIssueInvoices = async (invoices: InvoiceData[]) => {
+    try {
+      for (const invoice of invoices.filter(i => !i.issued)) {
+        await issueInvoice(invoice);
+      }
+    } catch (e) {
+      console.error("Failed to issue invoice", e);
+      alert("Could not issue the invoice.");
+    }
+  };
+
+  const handleVoidInvoice = async (entry: IssuedInvoice) => {
+    const reason = window.prompt(`Void invoice ${entry.number}? Reason (optional):`);
+    if (reason === null) return;
+    try {
+      await updateLedgerEntry(voidInvoice(entry, reason.trim() || undefined));
+    } catch (e) {
+      console.error("Failed to void invoice", e);
+      alert("Could not void the invoice.");
+    }
+  };
+
+  // Voids the tenant's current invoice and issues a new number for the current figures
+  const handleReissueInvoice = async (issuedInvoice: InvoiceData) => {
+    const current = findIssuedInvoice(ledger, activePeriodId, issuedInvoice.tenant.id);
+    if (!current) return;
+    const invoice = liveInvoices.find(i => i.tenant.id === issuedInvoice.tenant.id);
+    if (!invoice) {
+      alert(`There are no current readings for ${issuedInvoice.tenant.name} to reissue ${current.number} with. Void it instead.`);
+      return;
+    }
+    const period = periods.find(p => p.id === activePeriodId);
+    if (!period) return;
+    const reason = window.prompt(`Void ${current.number} and issue a replacement? Reason (optional):`);
+    if (reason === null) return;
+    try {
+      // Voiding and issuing happen in one transaction, so a failure leaves the ledger unchanged
+      const [voided, replacement] = await writeIssuedInvoices(existing => reissueInvoice(
+        existing, current, invoice, period, { rules: billingRules, issuer },
+        building.invoicePrefix || DEFAULT_INVOICE_PREFIX, reason.trim() || undefined
+      ));
+      setLedger(prev => [...prev.map(i => i.id === voided.id ? voided : i), replacement]);
+    } catch (e: any) {
+      console.error("Failed to reissue invoice", e);
+      alert(`Could not reissue ${current.number}. The ledger was left unchanged and no new number was used. ${e?.message || ''}`.trim());
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-100 py-8 print:bg-white print:py-0">
@@ -294,6 +979,17 @@ const App: React.FC = () => {
           <div className="flex items-center gap-4">
              {!isSharedView && (
                <>
+                <PeriodPicker
+                  periods={periods}
+                  activePeriodId={activePeriodId}
+                  isSaving={isSaving}
+                  onSelect={handleSelectPeriod}
+                  onCreate={handleCreatePeriod}
+                  onArchive={handleArchivePeriod}
+                  onReopen={handleReopenPeriod}
+                  onWindowChange={handleUpdatePeriodWindow}
+                />
+
                 <div className="flex items-center gap-3 bg-white px-3 py-2 rounded-lg border border-gray-200 shadow-sm transition-all hover:border-blue-300">
                     <label className="flex items-center gap-2 cursor-pointer select-none">
                         <input 
@@ -316,7 +1012,7 @@ const App: React.FC = () => {
                             className="w-20 bg-transparent font-bold text-gray-800 focus:outline-none text-right"
                             placeholder="0"
                         />
-                        <span className="text-xs text-gray-500 font-bold">₩</span>
+                        <span className="text-xs text-gray-500 font-bold">{currencySymbol}</span>
                     </div>
                 </div>
                 
@@ -378,6 +1074,78 @@ const App: React.FC = () => {
                     </button>
                   </div>
 
+                  {/* Pricing */}
+                  <TenantPricingSettings
+                    tenant={tenant}
+                    tariffs={tariffs}
+                    unitPrice={unitPrice}
+                    currency={currencySymbol}
+                    onChange={(updated) => setTenants(prev => prev.map(t => t.id === updated.id ? updated : t))}
+                  />
+
+                  {/* Lease Billing Cycle */}
+                  <div className="flex items-center gap-2 mb-4">
+                    <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Billing cycle</p>
+                    <select
+                      value={tenant.billingDay || 1}
+                      onChange={(e) => {
+                        const day = Number(e.target.value);
+                        setTenants(prev => prev.map(t => t.id === tenant.id ? { ...t, billingDay: day > 1 ? day : undefined } : t));
+                      }}
+                      className="flex-1 text-sm bg-white border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                    >
+                      <option value={1}>Period window / calendar month</option>
+                      {Array.from({ length: 27 }, (_, i) => i + 2).map(day => (
+                        <option key={day} value={day}>Day {day} to day {day - 1} (lease cycle)</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Payment Terms */}
+                  <div className="flex items-center gap-2 mb-4">
+                    <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Payment terms</p>
+                    <input
+                      type="number"
+                      min={0}
+                      value={tenant.paymentTermDays ?? DEFAULT_PAYMENT_TERM_DAYS}
+                      onChange={(e) => {
+                        const days = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                        setTenants(prev => prev.map(t => t.id === tenant.id ? { ...t, paymentTermDays: days === DEFAULT_PAYMENT_TERM_DAYS ? undefined : days } : t));
+                      }}
+                      className="w-16 text-sm bg-white border border-gray-300 rounded px-2 py-1 text-right focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                    />
+                    <span className="text-xs text-gray-500">days after issue</span>
+                  </div>
+
+                  {/* Business Registration Number */}
+                  <div className="flex items-center gap-2 mb-4">
+                    <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Business reg. no.</p>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={tenant.registrationNumber || ''}
+                      placeholder="123-45-67890"
+                      onChange={(e) => {
+                        const registrationNumber = formatBusinessNumber(e.target.value) || undefined;
+                        setTenants(prev => prev.map(t => t.id === tenant.id ? { ...t, registrationNumber } : t));
+                      }}
+                      className={`w-32 text-sm font-mono bg-white border rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none ${tenant.registrationNumber && !isValidBusinessNumber(tenant.registrationNumber) ? 'border-amber-400 bg-amber-50' : 'border-gray-300'}`}
+                      title={tenant.registrationNumber && !isValidBusinessNumber(tenant.registrationNumber) ? 'Check digit does not match' : undefined}
+                    />
+                    <label className="flex items-center gap-1.5 ml-auto text-xs text-gray-600 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={!!tenant.vatExempt}
+                        onChange={(e) => {
+                          const vatExempt = e.target.checked || undefined;
+                          setTenants(prev => prev.map(t => t.id === tenant.id ? { ...t, vatExempt } : t));
+                        }}
+                        className="w-3.5 h-3.5 rounded border-gray-300"
+                      />
+                      VAT exempt
+                    </label>
+                  </div>
+
                   {/* Meter List */}
                   <div className="space-y-2 mb-4 flex-1">
                     <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Meters</p>
@@ -387,7 +1155,37 @@ const App: React.FC = () => {
                       )}
                       {tenant.meters.map((meter, meterIdx) => (
                         <div key={meterIdx} className="group flex items-center gap-1 bg-white border border-gray-200 rounded-md px-2 py-1 text-xs shadow-sm">
-                          <span className="font-medium text-gray-700">{meter}</span>
+                          <span className="font-medium text-gray-700">{meter.name}</span>
+                          {tenant.meters.length > 1 && (
+                            <select
+                              value={meter.parent || ''}
+                              onChange={(e) => handleUpdateMeter(idx, meterIdx, { parent: e.target.value || undefined })}
+                              className={`text-[10px] bg-transparent border-none focus:outline-none cursor-pointer ${meter.parent ? 'text-blue-600' : 'text-gray-300 hover:text-gray-500'}`}
+                              title="Upstream meter (its usage will exclude this meter)"
+                            >
+                              <option value="">top-level</option>
+                              {getParentOptions(tenant, meter.name).map(name => (
+                                <option key={name} value={name}>under {name}</option>
+                              ))}
+                            </select>
+                          )}
+                          <span className="text-[10px] text-gray-400">×</span>
+                          <input
+                            type="number"
+                            min="0"
+                            value={meter.multiplier ?? 1}
+                            onChange={(e) => handleUpdateMeter(idx, meterIdx, { multiplier: Number(e.target.value) === 1 ? undefined : Number(e.target.value) })}
+                            className={`w-10 text-[10px] font-mono bg-transparent border-b border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none ${meter.multiplier ? 'text-blue-600 font-bold' : 'text-gray-400'}`}
+                            title="CT ratio / multiplier"
+                          />
+                          <input
+                            type="text"
+                            value={meter.unit ?? ''}
+                            placeholder="kWh"
+                            onChange={(e) => handleUpdateMeter(idx, meterIdx, { unit: e.target.value.trim() || undefined })}
+                            className="w-8 text-[10px] bg-transparent border-b border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none text-gray-500 placeholder-gray-300"
+                            title="Register unit"
+                          />
                           <button 
                             onClick={() => handleRemoveMeter(idx, meterIdx)}
                             className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -433,6 +1231,104 @@ const App: React.FC = () => {
               </button>
             </div>
 
+            <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2 border-b pb-2">
+              <Split className="w-5 h-5 text-blue-600" /> Shared Meters & Allocation
+            </h3>
+            <div className="mb-6">
+              <SharedMeterSettings
+                building={building}
+                tenants={tenants}
+                onChange={setBuilding}
+                onTenantsChange={setTenants}
+              />
+            </div>
+
+            <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2 border-b pb-2">
+              <Landmark className="w-5 h-5 text-blue-600" /> Issuer Profile
+            </h3>
+            <div className="mb-6">
+              <IssuerSettings issuer={issuer} onChange={setIssuer} />
+            </div>
+
+            <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2 border-b pb-2">
+              <Receipt className="w-5 h-5 text-blue-600" /> Tariffs
+            </h3>
+            <div className="mb-6">
+              <TariffSettings tariffs={tariffs} currency={currencySymbol} onChange={setTariffs} />
+            </div>
+
+            <div className="mb-6 pt-4 border-t border-gray-200">
+              <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">Invoicing</h4>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <label className="text-sm text-gray-700 shrink-0">Invoice number prefix</label>
+                <input
+                  type="text"
+                  value={building.invoicePrefix ?? DEFAULT_INVOICE_PREFIX}
+                  onChange={(e) => setBuilding({ ...building, invoicePrefix: e.target.value })}
+                  className="w-48 text-sm font-mono bg-white border border-gray-300 rounded px-2 py-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                />
+                <span className="text-xs text-gray-400">
+                  {'{YYYY}'} and {'{YY}'} become the issue year. Next number: <span className="font-mono">{nextInvoiceNumber(ledger, building.invoicePrefix ?? DEFAULT_INVOICE_PREFIX, new Date()).number}</span>
+                </span>
+              </div>
+              <div className="mt-4">
+                <BillingRulesSettings rules={billingRules} onChange={setBillingRules} />
+              </div>
+            </div>
+
+            <div className="mb-6 pt-4 border-t border-gray-200">
+              <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">Reading Options</h4>
+              <label className="flex items-start gap-2 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={autoFillStart}
+                  onChange={(e) => setAutoFillStart(e.target.checked)}
+                  className="mt-0.5 w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300 cursor-pointer"
+                />
+                <span className="text-sm text-gray-700">
+                  Fill start reading from last period's end reading
+                  <span className="block text-xs text-gray-400">Only the end reading is taken from the screenshot when the meter has history.</span>
+                </span>
+              </label>
+              <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2">
+                <label className="text-sm text-gray-700 shrink-0">Extraction engine</label>
+                <select
+                  value={extractorId}
+                  onChange={(e) => setExtractorId(e.target.value as ExtractorId)}
+                  className="text-sm bg-white border border-gray-300 rounded px-2 py-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                >
+                  {EXTRACTORS.map(e => (
+                    <option key={e.id} value={e.id}>{e.label}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-400">{getExtractor(extractorId).description}</span>
+              </div>
+              <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-700">
+                <span>Batch analysis</span>
+                {([
+                  ['concurrency', 'Parallel requests'],
+                  ['requestsPerMinute', 'Requests / min'],
+                  ['maxAttempts', 'Attempts per item']
+                ] as [keyof QueueSettings, string][]).map(([key, label]) => (
+                  <label key={key} className="flex items-center gap-1.5 text-xs text-gray-500">
+                    {label}
+                    <input
+                      type="number"
+                      min="1"
+                      value={queueSettings[key]}
+                      onChange={(e) => setQueueSettings(prev => ({ ...prev, [key]: Math.max(1, Math.round(Number(e.target.value)) || 1) }))}
+                      className="w-14 text-right font-mono text-sm border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                    />
+                  </label>
+                ))}
+              </div>
+              {extractorId === 'gemini' && (
+                <div className="mt-4">
+                  <ModelSettings policy={modelPolicy} onChange={setModelPolicy} />
+                </div>
+              )}
+            </div>
+
             <div className="pt-4 border-t border-gray-200 flex justify-between items-center">
                <button 
                 onClick={handleResetConfig}
@@ -499,25 +1395,59 @@ const App: React.FC = () => {
                 items={items}
                 onRemove={handleRemoveImage}
               />
+
+              <ReadingImporter
+                mappings={importMappings}
+                onMappingsChange={setImportMappings}
+                onImport={handleReadingsImport}
+              />
               
+              {isAnalyzingAll && (
+                <div className="mt-6 bg-gray-50 border border-gray-200 rounded-xl p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                    <div className="text-sm text-gray-700">
+                      <span className="font-bold">{queueState.completed + queueState.failed} / {queueState.total}</span> done
+                      <span className="text-gray-400"> · {queueState.running.length} running · {queueState.pending.length} queued</span>
+                      {queueState.failed > 0 && <span className="text-red-500"> · {queueState.failed} failed</span>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-gray-500 flex items-center gap-1">
+                        <Clock className="w-3.5 h-3.5" />
+                        {queueState.paused
+                          ? (queueState.running.length > 0 ? 'Pausing after running items…' : 'Paused')
+                          : queueState.etaMs === null ? 'Estimating…' : `~${formatEta(queueState.etaMs)} left`}
+                      </span>
+                      <button
+                        onClick={() => queueState.paused ? queue.resume() : queue.pause()}
+                        className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-xs font-semibold text-gray-700 hover:bg-gray-100 flex items-center gap-1"
+                      >
+                        {queueState.paused ? <><Play className="w-3.5 h-3.5" /> Resume</> : <><Pause className="w-3.5 h-3.5" /> Pause</>}
+                      </button>
+                      <button
+                        onClick={() => queue.cancelAll()}
+                        className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-semibold text-red-600 hover:bg-red-50 flex items-center gap-1"
+                      >
+                        <Square className="w-3.5 h-3.5" /> Cancel All
+                      </button>
+                    </div>
+                  </div>
+                  <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all duration-500"
+                      style={{ width: `${queueState.total > 0 ? ((queueState.completed + queueState.failed) / queueState.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
               {items.length > 0 && pendingCount > 0 && (
                 <div className="mt-6 flex justify-end">
                   <button
                     onClick={handleAnalyzeAll}
-                    disabled={isAnalyzingAll}
                     className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-semibold rounded-lg shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 transition-all duration-200 flex items-center gap-2"
                   >
-                    {isAnalyzingAll ? (
-                      <>
-                        <Loader2 className="w-5 h-5 animate-spin" />
-                        Analyzing...
-                      </>
-                    ) : (
-                      <>
-                        <Activity className="w-5 h-5" />
-                        Analyze {pendingCount} Pending Items
-                      </>
-                    )}
+                    <Activity className="w-5 h-5" />
+                    {isAnalyzingAll ? `Add ${pendingCount} Pending Items to Queue` : `Analyze ${pendingCount} Pending Items`}
                   </button>
                 </div>
               )}
@@ -530,7 +1460,24 @@ const App: React.FC = () => {
                 
                 // Wrap content based on state
                 return (
-                  <div key={item.id} className="col-span-1">
+                  <div key={item.id} className={`col-span-1 ${item.status === 'success' && needsReview(item.result) ? 'ring-4 ring-amber-300 rounded-xl' : ''}`}>
+                    {item.status === 'queued' && (
+                      <div className="w-full bg-white rounded-xl shadow p-4 border border-gray-100 flex items-center gap-3">
+                          <Clock className="w-5 h-5 text-gray-400 shrink-0" />
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm font-medium text-gray-700 truncate">{item.file.name}</p>
+                            <p className="text-xs text-gray-400 truncate">{item.error || 'Queued'}</p>
+                          </div>
+                          <button
+                            onClick={() => queue.cancel(item.id)}
+                            className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                            title="Cancel"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                      </div>
+                    )}
+
                     {item.status === 'analyzing' && (
                       <div className="w-full h-full min-h-[300px] bg-white rounded-xl shadow p-6 border border-gray-100 flex flex-col items-center justify-center space-y-4">
                           <Loader2 className="w-10 h-10 text-blue-600 animate-spin" />
@@ -538,6 +1485,12 @@ const App: React.FC = () => {
                             <p className="font-bold text-gray-800">Reading Meter...</p>
                             <p className="text-sm text-gray-500">{item.file.name}</p>
                           </div>
+                          <button
+                            onClick={() => queue.cancel(item.id)}
+                            className="px-4 py-2 bg-white border border-gray-200 rounded-lg text-gray-600 text-sm font-medium hover:bg-gray-50 shadow-sm"
+                          >
+                            Cancel
+                          </button>
                       </div>
                     )}
 
@@ -550,7 +1503,7 @@ const App: React.FC = () => {
                             <p className="text-red-500 text-xs mt-2 max-w-xs mx-auto">{item.error}</p>
                           </div>
                           <button 
-                          onClick={() => analyzeItem(item)}
+                          onClick={() => enqueueItems([item.id])}
                           className="px-4 py-2 bg-white border border-red-200 rounded-lg text-red-600 text-sm font-medium hover:bg-red-50 shadow-sm"
                           >
                             Retry Analysis
@@ -564,11 +1517,18 @@ const App: React.FC = () => {
                         file={item.file}
                         fileName={item.file.name}
                         result={item.result} 
-                        tenants={tenants}
+                        tenants={assignableTenants}
                         assignment={item.assignment}
+                        suggestion={item.suggestion}
                         onUpdateResult={(updated) => handleUpdateResult(item.id, updated)}
                         onUpdateAssignment={(assignment) => handleUpdateAssignment(item.id, assignment)}
                         previewUrl={item.previewUrl || item.thumbnailUrl}
+                        billingWindow={getWindow(item.assignment)}
+                        crop={item.crop}
+                        onRerun={item.imported ? undefined : (crop) => handleRerunWithCrop(item.id, crop)}
+                        history={item.assignment.tenantId && item.assignment.meterName
+                          ? meterHistory[getMeterKey(item.assignment.tenantId, item.assignment.meterName)]
+                          : undefined}
                       />
                     )}
                   </div>
@@ -593,7 +1553,51 @@ const App: React.FC = () => {
         {/* Invoice View */}
         {activeTab === 'invoice' && (
            <div>
-             {invoiceData.length === 0 ? (
+             {reviewCount > 0 && !isSharedView && (
+               <div className="mb-8 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-4 flex items-center justify-between gap-4 print:hidden">
+                 <div className="flex items-center gap-3">
+                   <AlertCircle className="w-5 h-5 text-amber-500 flex-shrink-0" />
+                   <p className="text-sm">
+                     <span className="font-bold">{reviewCount} flagged reading(s)</span> are left out of the invoices until they are confirmed.
+                   </p>
+                 </div>
+                 <button
+                   onClick={() => setActiveTab('analysis')}
+                   className="text-sm font-medium text-amber-700 hover:underline whitespace-nowrap"
+                 >
+                   Review
+                 </button>
+               </div>
+             )}
+             {reconciliation && !isSharedView && (
+               <div className={`mb-8 rounded-xl p-4 border flex flex-wrap items-center gap-x-8 gap-y-2 print:hidden ${Math.abs(reconciliation.lossPercent) > 5 ? 'bg-red-50 border-red-200' : 'bg-white border-gray-200'}`}>
+                 <div className="flex items-center gap-2">
+                   <Scale className="w-5 h-5 text-gray-500" />
+                   <span className="font-bold text-gray-800">Master Meter Reconciliation</span>
+                 </div>
+                 <span className="text-sm text-gray-600">Master: <span className="font-mono font-bold">{reconciliation.masterUsage.toLocaleString()}</span> kWh</span>
+                 <span className="text-sm text-gray-600">Sub-meters: <span className="font-mono font-bold">{reconciliation.subMeterUsage.toLocaleString()}</span> kWh</span>
+                 <span className={`text-sm font-bold ${reconciliation.loss < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                   {reconciliation.loss < 0 ? 'Sub-meters exceed master by' : 'Unaccounted'}: <span className="font-mono">{Math.abs(reconciliation.loss).toLocaleString()}</span> kWh ({reconciliation.lossPercent}%)
+                 </span>
+               </div>
+             )}
+
+             {!isSharedView && checklist.meters.length + items.length > 0 && (
+               <InvoiceChecklist
+                 checklist={checklist}
+                 items={items}
+                 overridden={checklistOverridden}
+                 onOverride={(override) => setOverriddenIssues(override ? checklist.issueKeys : [])}
+                 onReview={() => setActiveTab('analysis')}
+               />
+             )}
+
+             {!isSharedView && ledger.length > 0 && (
+               <InvoiceLedger ledger={ledger} activePeriodId={activePeriodId} rules={billingRules} onVoid={handleVoidInvoice} />
+             )}
+
+             {visibleInvoices.length === 0 ? (invoicesBlocked ? null : (
                <div className="text-center py-24 bg-white rounded-2xl border border-dashed border-gray-300">
                  <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                  <h3 className="text-xl font-bold text-gray-400">No Invoices Ready</h3>
@@ -605,12 +1609,20 @@ const App: React.FC = () => {
                    Go to Upload
                  </button>
                </div>
-             ) : (
+             )) : (
                 <Invoice 
-                  invoices={invoiceData} 
+                  invoices={visibleInvoices} 
                   unitPrice={unitPrice} 
                   isSharedView={isSharedView} 
                   showCost={showCost}
+                  rules={rules}
+                  issuer={isSharedView ? sharedIssuer : issuer}
+                  onIssue={handleIssueInvoices}
+                  onReissue={invoicesBlocked ? undefined : handleReissueInvoice}
+                  onVoid={(invoice) => {
+                    const entry = findIssuedInvoice(ledger, activePeriodId, invoice.tenant.id);
+                    if (entry) handleVoidInvoice(entry);
+                  }}
                 />
              )}
            </div>
@@ -1,7 +1,22 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { AnalysisResult, Tenant, MeterAssignment } from '../types';
-import { Calendar, Zap, FileImage, Building2, ChevronDown, CheckCircle2, FileText, ZoomIn, X } from 'lucide-react';
+import { AnalysisResult, Tenant, MeterAssignment, MeterHistoryEntry, BillingWindow, BoundingBox, AssignmentSuggestion } from '../types';
+import { Calendar, Zap, FileImage, Building2, ChevronDown, CheckCircle2, FileText, ZoomIn, X, BarChart3, AlertTriangle, History, Cpu, Table2, Crop, RotateCcw, Wand2 } from 'lucide-react';
+import { UsageTrendChart, UsageDeltaBadge } from './UsageTrendChart';
+import { getPreviousEntry } from '../services/historyService';
+import { checkContinuity, applyPreviousEnd, hasNegativeUsage, needsReview } from '../services/validationService';
+import { calculateUsage, getRawUsage } from '../services/meterService';
+import { applyBoundaryRows, findRowIndex } from '../services/readingTableService';
+import { DailyUsageChart } from './DailyUsageChart';
+import { HighlightedImage } from './HighlightedImage';
+import { formatWindow } from '../services/billingWindowService';
+import { formatReadingDate, normalizeReadingDate, parseReadingDate } from '../services/dateService';
+
+const SUGGESTION_SOURCE_LABELS: Record<AssignmentSuggestion['source'], string> = {
+  label: 'screen label',
+  filename: 'file name',
+  alias: 'saved alias'
+};
 
 interface AnalysisResultsProps {
   id: string;
@@ -10,9 +25,14 @@ interface AnalysisResultsProps {
   result: AnalysisResult;
   tenants: Tenant[];
   assignment: MeterAssignment;
+  suggestion?: AssignmentSuggestion;
   onUpdateResult: (updatedResult: AnalysisResult) => void;
   onUpdateAssignment: (assignment: MeterAssignment) => void;
   previewUrl?: string;
+  history?: MeterHistoryEntry[];
+  billingWindow?: BillingWindow;
+  crop?: BoundingBox;
+  onRerun?: (crop?: BoundingBox) => void;
 }
 
 export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ 
@@ -21,13 +41,32 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
   result, 
   tenants,
   assignment,
+  suggestion,
   onUpdateResult,
   onUpdateAssignment,
-  previewUrl
+  previewUrl,
+  history,
+  billingWindow,
+  crop,
+  onRerun
 }) => {
   const [localResult, setLocalResult] = useState(result);
   const [isManualInput, setIsManualInput] = useState(false);
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const [showRows, setShowRows] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selection, setSelection] = useState<BoundingBox | null>(null);
+
+  const closeViewer = () => {
+    setIsFullScreen(false);
+    setIsSelecting(false);
+    setSelection(null);
+  };
+
+  const rerun = (area?: BoundingBox) => {
+    closeViewer();
+    onRerun?.(area);
+  };
 
   // Sync local state when prop changes
   useEffect(() => {
@@ -44,21 +83,100 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
 
     const updated = {
       ...localResult,
+      confirmed: false,
+      ...(type === 'start' ? { startFromHistory: false } : {}),
       [type === 'start' ? 'startReading' : 'endReading']: {
         ...localResult[type === 'start' ? 'startReading' : 'endReading'],
         value: newVal
       }
     };
-    updated.usage = parseFloat(Math.abs(updated.endReading.value - updated.startReading.value).toFixed(2));
+    updated.usage = calculateUsage(updated.startReading.value, updated.endReading.value, updated.multiplier);
+    setLocalResult(updated);
+    onUpdateResult(updated);
+  };
+
+  const handleDateChange = (type: 'start' | 'end', value: string) => {
+    if (!value) return;
+    const key = type === 'start' ? 'startReading' : 'endReading';
+    const updated = {
+      ...localResult,
+      confirmed: false,
+      ...(type === 'start' ? { startFromHistory: false } : {}),
+      [key]: { ...localResult[key], date: normalizeReadingDate(value) }
+    };
     setLocalResult(updated);
     onUpdateResult(updated);
   };
 
+  const startTime = parseReadingDate(localResult.startReading.date);
+  const endTime = parseReadingDate(localResult.endReading.date);
+  const datesInvalid = startTime === null || endTime === null || endTime <= startTime;
+
+  const suggestedTenant = suggestion && tenants.find(t => t.id === suggestion.assignment.tenantId);
+
   const handleTenantChange = (tenantId: string) => {
     onUpdateAssignment({ tenantId, meterName: '' });
     setIsManualInput(false);
   };
 
+  const previousEntry = getPreviousEntry(history);
+  const continuityIssues = useMemo(() => checkContinuity(localResult, previousEntry), [localResult, previousEntry]);
+
+  const warnings = localResult.warnings || [];
+  const isFlagged = needsReview(localResult);
+  const isBlocked = hasNegativeUsage(localResult);
+
+  const handleConfirm = () => {
+    const updated = { ...localResult, confirmed: true };
+    setLocalResult(updated);
+    onUpdateResult(updated);
+  };
+
+  const rows = localResult.rows || [];
+  const startRowIdx = findRowIndex(rows, localResult.startReading);
+  const endRowIdx = findRowIndex(rows, localResult.endReading);
+
+  const handleSelectRow = (type: 'start' | 'end', idx: number) => {
+    // A hand-edited reading matches no row; keep the widest window on the other side
+    const startIdx = type === 'start' ? idx : (startRowIdx !== -1 ? startRowIdx : 0);
+    const endIdx = type === 'end' ? idx : (endRowIdx !== -1 ? endRowIdx : rows.length - 1);
+    if (startIdx >= endIdx) return;
+    const updated = applyBoundaryRows(localResult, startIdx, endIdx);
+    setLocalResult(updated);
+    onUpdateResult(updated);
+  };
+
+  const handleUseHistoryStart = () => {
+    if (!previousEntry) return;
+    const updated = applyPreviousEnd(localResult, previousEntry);
+    setLocalResult(updated);
+    onUpdateResult(updated);
+  };
+
+  const confidenceLabel = (value?: number) =>
+    value === undefined ? null : (
+      <span
+        className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${value < 0.7 ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-500'}`}
+        title="Model confidence"
+      >
+        {Math.round(value * 100)}%
+      </span>
+    );
+
+  const dateInput = (type: 'start' | 'end') => {
+    const reading = type === 'start' ? localResult.startReading : localResult.endReading;
+    const time = type === 'start' ? startTime : endTime;
+    return (
+      <input
+        type="datetime-local"
+        value={time === null ? '' : normalizeReadingDate(reading.date)}
+        onChange={(e) => handleDateChange(type, e.target.value)}
+        title={time === null ? `Could not parse "${reading.date}"` : formatReadingDate(reading.date)}
+        className={`w-full mb-1 text-xs font-mono bg-transparent border rounded px-1.5 py-0.5 focus:outline-none focus:border-blue-500 ${datesInvalid ? 'border-red-300 text-red-600' : 'border-gray-200 text-gray-500'}`}
+      />
+    );
+  };
+
   // Helper to remove extension
   const displayName = fileName.replace(/\.[^/.]+$/, "");
 
@@ -67,39 +185,39 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
       <div className="w-full bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden animate-fade-in mb-8 last:mb-0">
           <div className="flex flex-col lg:flex-row items-stretch h-full">
               
-              {/* LEFT: Image Panel */}
-              <div 
-                className="w-full lg:w-5/12 bg-slate-900 relative min-h-[400px] lg:min-h-0 p-4 flex flex-col justify-center items-center group cursor-pointer overflow-hidden"
-                onClick={() => setIsFullScreen(true)}
-              >
-                  <div className="absolute top-0 left-0 w-full p-3 bg-gradient-to-b from-black/60 to-transparent flex justify-between items-start z-10 pointer-events-none">
-                      {/* Added 'notranslate' class and translate="no" to prevent "Utility" -> "Fighter" translation */}
-                      <span className="text-white/80 text-xs font-mono bg-black/40 px-2 py-1 rounded backdrop-blur-md border border-white/10 truncate max-w-[200px] notranslate" translate="no" title={fileName}>
-                          {displayName}
-                      </span>
-                      <span className="text-blue-300 text-xs font-bold uppercase tracking-wider flex items-center gap-1 bg-blue-900/30 px-2 py-1 rounded border border-blue-500/30">
-                          <FileImage className="w-3 h-3" /> Original
-                      </span>
-                  </div>
+              {/* LEFT: Image Panel (imported readings have none) */}
+              {previewUrl && (
+                <div 
+                  className="w-full lg:w-5/12 bg-slate-900 relative min-h-[400px] lg:min-h-0 p-4 flex flex-col justify-center items-center group cursor-pointer overflow-hidden"
+                  onClick={() => setIsFullScreen(true)}
+                >
+                    <div className="absolute top-0 left-0 w-full p-3 bg-gradient-to-b from-black/60 to-transparent flex justify-between items-start z-10 pointer-events-none">
+                        {/* Added 'notranslate' class and translate="no" to prevent "Utility" -> "Fighter" translation */}
+                        <span className="text-white/80 text-xs font-mono bg-black/40 px-2 py-1 rounded backdrop-blur-md border border-white/10 truncate max-w-[200px] notranslate" translate="no" title={fileName}>
+                            {displayName}
+                        </span>
+                        <span className="text-blue-300 text-xs font-bold uppercase tracking-wider flex items-center gap-1 bg-blue-900/30 px-2 py-1 rounded border border-blue-500/30">
+                            <FileImage className="w-3 h-3" /> Original
+                        </span>
+                    </div>
                   
-                  {/* Hover Overlay for Zoom Indication */}
-                  <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center z-20 backdrop-blur-[2px]">
-                    <div className="bg-white/20 text-white p-3 rounded-full backdrop-blur-md border border-white/30 transform scale-90 group-hover:scale-100 transition-transform">
-                      <ZoomIn className="w-8 h-8" />
+                    {/* Hover Overlay for Zoom Indication */}
+                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center z-20 backdrop-blur-[2px]">
+                      <div className="bg-white/20 text-white p-3 rounded-full backdrop-blur-md border border-white/30 transform scale-90 group-hover:scale-100 transition-transform">
+                        <ZoomIn className="w-8 h-8" />
+                      </div>
                     </div>
-                  </div>
                   
-                  {previewUrl && (
-                      <img 
-                          src={previewUrl} 
-                          alt="Meter Reading" 
-                          className="max-w-full max-h-[600px] object-contain shadow-2xl transition-transform duration-300 group-hover:scale-105" 
-                      />
-                  )}
-              </div>
+                    <img 
+                        src={previewUrl} 
+                        alt="Meter Reading" 
+                        className="max-w-full max-h-[600px] object-contain shadow-2xl transition-transform duration-300 group-hover:scale-105" 
+                    />
+                </div>
+              )}
 
               {/* RIGHT: Data Panel */}
-              <div className="w-full lg:w-7/12 p-6 flex flex-col gap-6 bg-white">
+              <div className={`w-full ${previewUrl ? 'lg:w-7/12' : ''} p-6 flex flex-col gap-6 bg-white`}>
                   
                   {/* Header */}
                   <div className="flex items-center gap-3 pb-4 border-b border-gray-100">
@@ -109,8 +227,13 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                       <div className="min-w-0 flex-1">
                           {/* Added 'notranslate' here as well */}
                           <h3 className="font-bold text-gray-900 text-lg truncate notranslate" translate="no" title={fileName}>{displayName}</h3>
-                          <p className="text-sm text-gray-500">Confirm reading data matches the photo</p>
+                          <p className="text-sm text-gray-500">{previewUrl ? 'Confirm reading data matches the photo' : 'Confirm the billed rows of the imported log'}</p>
                       </div>
+                      {localResult.model && (
+                          <span className="shrink-0 text-[10px] font-mono text-gray-500 bg-gray-100 px-2 py-1 rounded flex items-center gap-1" title="Extracted by">
+                              <Cpu className="w-3 h-3" /> {localResult.model}
+                          </span>
+                      )}
                   </div>
 
                   {/* Assignment Form */}
@@ -118,7 +241,33 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                       <div className="flex items-center gap-2 mb-3">
                           <Building2 className="w-4 h-4 text-gray-500" />
                           <span className="text-xs font-bold text-gray-500 uppercase">Allocation</span>
+                          {suggestion?.applied && (
+                              <span className="ml-auto text-[10px] font-medium text-green-700 bg-green-50 border border-green-200 px-2 py-0.5 rounded flex items-center gap-1" title="Matched automatically; change it below if it is wrong">
+                                  <Wand2 className="w-3 h-3" /> Auto-assigned from {SUGGESTION_SOURCE_LABELS[suggestion.source]} ({Math.round(suggestion.score * 100)}%)
+                              </span>
+                          )}
                       </div>
+                      {localResult.meterLabel && (
+                          <p className="-mt-1 mb-3 text-xs text-gray-500">
+                              Label on screen: <span className="font-mono text-gray-700 notranslate" translate="no">{localResult.meterLabel}</span>
+                          </p>
+                      )}
+                      {suggestion && !suggestion.applied && suggestedTenant && (
+                          <div className="mb-3 text-xs bg-amber-50 border border-amber-200 text-amber-800 rounded-lg px-3 py-2 flex items-center justify-between gap-2">
+                              <span className="flex items-center gap-1 min-w-0">
+                                  <Wand2 className="w-3 h-3 shrink-0" />
+                                  <span className="truncate">
+                                      {suggestion.ambiguous ? 'Possible match' : 'Low-confidence match'}: <strong>{suggestedTenant.name} · {suggestion.assignment.meterName}</strong> from {SUGGESTION_SOURCE_LABELS[suggestion.source]} ({Math.round(suggestion.score * 100)}%)
+                                  </span>
+                              </span>
+                              <button
+                                  onClick={() => onUpdateAssignment(suggestion.assignment)}
+                                  className="shrink-0 px-2 py-1 bg-amber-100 hover:bg-amber-200 rounded font-semibold"
+                              >
+                                  Apply
+                              </button>
+                          </div>
+                      )}
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                           {/* Tenant */}
                           <div>
@@ -158,7 +307,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                                     >
                                       <option value="">Select Meter...</option>
                                       {selectedTenant.meters.map((m, idx) => (
-                                        <option key={idx} value={m}>{m}</option>
+                                        <option key={idx} value={m.name}>{m.name}</option>
                                       ))}
                                       <option disabled>──────────</option>
                                       <option value="manual_input_override">+ Type Manually...</option>
@@ -189,6 +338,12 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                       </div>
                   </div>
 
+                  {billingWindow && (
+                      <div className={`-mb-3 text-xs flex items-center gap-1 ${warnings.some(w => w.type === 'window_mismatch') ? 'text-amber-700' : 'text-gray-500'}`}>
+                          <Calendar className="w-3 h-3" /> Billing window {formatWindow(billingWindow)}
+                      </div>
+                  )}
+
                   {/* Data Grid */}
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                       {/* Previous */}
@@ -196,11 +351,15 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                           <div className="flex justify-between items-center mb-2">
                               <span className="text-xs font-bold text-gray-400 uppercase flex items-center gap-1">
                                   <Calendar className="w-3 h-3" /> Previous
+                                  {localResult.startFromHistory && previousEntry && (
+                                      <span className="ml-1 normal-case font-medium text-green-600 flex items-center gap-0.5" title={`Carried over from ${previousEntry.periodName}`}>
+                                          <History className="w-3 h-3" /> {previousEntry.periodName}
+                                      </span>
+                                  )}
                               </span>
-                              <span className="text-[10px] bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded font-mono truncate max-w-[120px]" title={localResult.startReading.date}>
-                                  {localResult.startReading.date}
-                              </span>
+                              {confidenceLabel(localResult.confidence?.startValue)}
                           </div>
+                          {dateInput('start')}
                           <input 
                               type="number"
                               step="0.1"
@@ -216,10 +375,9 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                               <span className="text-xs font-bold text-blue-600 uppercase flex items-center gap-1">
                                   <CheckCircle2 className="w-3 h-3" /> Current
                               </span>
-                              <span className="text-[10px] bg-blue-100 text-blue-600 px-1.5 py-0.5 rounded font-mono truncate max-w-[120px]" title={localResult.endReading.date}>
-                                  {localResult.endReading.date}
-                              </span>
+                              {confidenceLabel(localResult.confidence?.endValue)}
                           </div>
+                          {dateInput('end')}
                           <input 
                               type="number"
                               step="0.1"
@@ -230,6 +388,137 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                       </div>
                   </div>
 
+                  {/* Anomaly Warnings */}
+                  {warnings.length > 0 && (
+                      <div className={`rounded-xl border p-4 ${isFlagged ? 'bg-amber-50 border-amber-300' : 'bg-gray-50 border-gray-200'}`}>
+                          <div className="flex items-start gap-3">
+                              {isFlagged
+                                ? <AlertTriangle className="w-5 h-5 flex-shrink-0 text-amber-500" />
+                                : <CheckCircle2 className="w-5 h-5 flex-shrink-0 text-green-500" />}
+                              <div className="flex-1 min-w-0">
+                                  <p className="text-sm font-bold text-gray-800">
+                                      {isBlocked ? 'Cannot be invoiced until corrected' : isFlagged ? 'Needs review before invoicing' : 'Confirmed despite warnings'}
+                                  </p>
+                                  <ul className="mt-1 space-y-0.5">
+                                      {warnings.map((warning, idx) => (
+                                          <li key={idx} className="text-xs text-gray-600">{warning.message}</li>
+                                      ))}
+                                  </ul>
+                                  {isFlagged && !isBlocked && (
+                                      <button
+                                          onClick={handleConfirm}
+                                          className="mt-3 text-xs font-bold px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-white shadow-sm"
+                                      >
+                                          Confirm Reading
+                                      </button>
+                                  )}
+                              </div>
+                          </div>
+                      </div>
+                  )}
+
+                  {/* Continuity Check */}
+                  {continuityIssues.length > 0 && previousEntry && (
+                      <div className={`rounded-xl border p-4 ${continuityIssues.some(i => i.type === 'backwards') ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+                          <div className="flex items-start gap-3">
+                              <AlertTriangle className={`w-5 h-5 flex-shrink-0 ${continuityIssues.some(i => i.type === 'backwards') ? 'text-red-500' : 'text-amber-500'}`} />
+                              <div className="flex-1 min-w-0">
+                                  <p className="text-sm font-bold text-gray-800">Reading continuity</p>
+                                  <ul className="mt-1 space-y-0.5">
+                                      {continuityIssues.map((issue, idx) => (
+                                          <li key={idx} className="text-xs text-gray-600">{issue.message}</li>
+                                      ))}
+                                  </ul>
+                                  {continuityIssues.some(i => i.type !== 'gap') && (
+                                      <button
+                                          onClick={handleUseHistoryStart}
+                                          className="mt-3 text-xs font-bold px-3 py-1.5 rounded-lg bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 shadow-sm"
+                                      >
+                                          Use {previousEntry.result.endReading.value.toLocaleString()} from {previousEntry.periodName}
+                                      </button>
+                                  )}
+                              </div>
+                          </div>
+                      </div>
+                  )}
+
+                  {/* Month-over-Month Trend */}
+                  {history && previousEntry && (
+                      <div className="rounded-xl border border-gray-200 p-4">
+                          <div className="flex justify-between items-center mb-3">
+                              <span className="text-xs font-bold text-gray-500 uppercase flex items-center gap-1">
+                                  <BarChart3 className="w-3 h-3" /> Trend
+                              </span>
+                              <span className="text-xs text-gray-500 flex items-center gap-2">
+                                  vs {previousEntry.periodName} ({previousEntry.result.usage.toLocaleString()} kWh)
+                                  <UsageDeltaBadge currentUsage={localResult.usage} previousUsage={previousEntry.result.usage} />
+                              </span>
+                          </div>
+                          <UsageTrendChart history={history} currentUsage={localResult.usage} />
+                      </div>
+                  )}
+
+                  {/* Daily Reading Table */}
+                  {rows.length > 1 && (
+                      <div className="rounded-xl border border-gray-200 p-4">
+                          <div className="flex justify-between items-center mb-3">
+                              <span className="text-xs font-bold text-gray-500 uppercase flex items-center gap-1">
+                                  <Table2 className="w-3 h-3" /> Daily Readings ({rows.length} rows)
+                              </span>
+                              <button
+                                onClick={() => setShowRows(!showRows)}
+                                className="text-xs font-semibold text-blue-600 hover:text-blue-800"
+                              >
+                                  {showRows ? 'Hide table' : 'Choose billing rows'}
+                              </button>
+                          </div>
+                          <DailyUsageChart result={localResult} />
+                          {showRows && (
+                              <div className="mt-3 max-h-64 overflow-y-auto border-t border-gray-100">
+                                  <table className="w-full text-xs">
+                                      <thead className="sticky top-0 bg-white text-gray-400 uppercase">
+                                          <tr>
+                                              <th className="text-left font-semibold py-1">Date</th>
+                                              <th className="text-right font-semibold py-1">Reading</th>
+                                              <th className="text-right font-semibold py-1">Δ</th>
+                                              <th className="text-right font-semibold py-1">Billing</th>
+                                          </tr>
+                                      </thead>
+                                      <tbody className="divide-y divide-gray-50 font-mono">
+                                          {rows.map((row, idx) => {
+                                              const delta = idx > 0 ? parseFloat((row.value - rows[idx - 1].value).toFixed(2)) : null;
+                                              const inWindow = idx >= startRowIdx && idx <= endRowIdx && startRowIdx !== -1;
+                                              return (
+                                                  <tr key={idx} className={delta !== null && delta < 0 ? 'bg-red-50 text-red-700' : inWindow ? 'bg-blue-50/50' : ''}>
+                                                      <td className="py-1 text-gray-600">{formatReadingDate(row.date)}</td>
+                                                      <td className="py-1 text-right">{row.value.toLocaleString()}</td>
+                                                      <td className="py-1 text-right text-gray-400">{delta === null ? '' : delta.toLocaleString()}</td>
+                                                      <td className="py-1 text-right space-x-1">
+                                                          <button
+                                                            onClick={() => handleSelectRow('start', idx)}
+                                                            disabled={endRowIdx !== -1 && idx >= endRowIdx}
+                                                            className={`px-1.5 py-0.5 rounded font-sans font-bold ${idx === startRowIdx ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-100 disabled:opacity-30'}`}
+                                                          >
+                                                              Start
+                                                          </button>
+                                                          <button
+                                                            onClick={() => handleSelectRow('end', idx)}
+                                                            disabled={startRowIdx !== -1 && idx <= startRowIdx}
+                                                            className={`px-1.5 py-0.5 rounded font-sans font-bold ${idx === endRowIdx ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-100 disabled:opacity-30'}`}
+                                                          >
+                                                              End
+                                                          </button>
+                                                      </td>
+                                                  </tr>
+                                              );
+                                          })}
+                                      </tbody>
+                                  </table>
+                              </div>
+                          )}
+                      </div>
+                  )}
+
                   {/* Total Usage Box */}
                   <div className="mt-auto bg-slate-800 rounded-xl p-5 text-white flex items-center justify-between shadow-lg relative overflow-hidden group">
                       <div className="absolute inset-0 bg-gradient-to-r from-blue-600/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"></div>
@@ -239,7 +528,13 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                           </div>
                           <div>
                               <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Calculated Usage</p>
-                              <p className="text-[10px] text-slate-500">Based on readings</p>
+                              {localResult.multiplier ? (
+                                  <p className="text-[10px] text-slate-400 font-mono">
+                                      Register {getRawUsage(localResult).toLocaleString()} {localResult.rawUnit || 'kWh'} × {localResult.multiplier}
+                                  </p>
+                              ) : (
+                                  <p className="text-[10px] text-slate-500">Based on readings</p>
+                              )}
                           </div>
                       </div>
                       <div className="relative z-10 text-right">
@@ -254,23 +549,68 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
       </div>
 
       {/* Full Screen Image Modal */}
-      {isFullScreen && (
+      {isFullScreen && previewUrl && (
         <div 
           className="fixed inset-0 z-[100] bg-black/95 flex items-center justify-center p-4 animate-fade-in"
-          onClick={() => setIsFullScreen(false)}
+          onClick={closeViewer}
         >
           <button 
             className="absolute top-6 right-6 p-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors cursor-pointer"
-            onClick={() => setIsFullScreen(false)}
+            onClick={closeViewer}
           >
             <X className="w-6 h-6" />
           </button>
+
+          {onRerun && (
+            <div className="absolute top-6 left-6 flex flex-wrap items-center gap-2 z-10" onClick={(e) => e.stopPropagation()}>
+              {isSelecting ? (
+                <>
+                  <span className="text-white/70 text-sm">Drag over the rows to read</span>
+                  <button
+                    onClick={() => selection && rerun(selection)}
+                    disabled={!selection}
+                    className="px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:bg-white/10 disabled:text-white/40 text-white text-sm font-semibold rounded-lg"
+                  >
+                    Re-run on selection
+                  </button>
+                  <button
+                    onClick={() => { setIsSelecting(false); setSelection(null); }}
+                    className="px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg"
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => setIsSelecting(true)}
+                    className="px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white text-sm font-semibold rounded-lg flex items-center gap-1.5"
+                  >
+                    <Crop className="w-4 h-4" /> Select area
+                  </button>
+                  {crop && (
+                    <button
+                      onClick={() => rerun(undefined)}
+                      className="px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg flex items-center gap-1.5"
+                    >
+                      <RotateCcw className="w-4 h-4" /> Re-run on full image
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
           
-          <img 
-            src={previewUrl} 
-            alt="Full size meter reading" 
+          <HighlightedImage
+            src={previewUrl}
+            alt="Full size meter reading"
+            regions={isSelecting ? undefined : localResult.regions}
+            crop={crop}
             className="max-w-full max-h-[90vh] object-contain rounded-md shadow-2xl animate-zoom-in cursor-default"
-            onClick={(e) => e.stopPropagation()} 
+            selecting={isSelecting}
+            selection={selection}
+            onSelectionChange={setSelection}
+            onClick={(e) => e.stopPropagation()}
           />
         </div>
       )}
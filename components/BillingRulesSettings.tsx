@@ -0,0 +1,69 @@
+import React from 'react';
+import { BillingRules, RoundingMode } from '../types';
+import { CURRENCIES, LOCALES, ROUNDING_MODE_LABELS, formatMoney } from '../services/billingRulesService';
+import { getInvoiceTotals } from '../services/tariffService';
+
+interface BillingRulesSettingsProps {
+  rules: BillingRules;
+  onChange: (rules: BillingRules) => void;
+}
+
+// Supply value used for the live example under the controls
+const SAMPLE_SUPPLY = 123456.78;
+
+export const BillingRulesSettings: React.FC<BillingRulesSettingsProps> = ({ rules, onChange }) => {
+  const update = (patch: Partial<BillingRules>) => onChange({ ...rules, ...patch });
+  const sample = getInvoiceTotals(SAMPLE_SUPPLY, rules);
+  const selectClass = 'text-sm bg-white border border-gray-300 rounded px-2 py-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          VAT
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={rules.vatRate}
+            onChange={(e) => update({ vatRate: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-16 text-sm text-right font-mono border border-gray-300 rounded px-2 py-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+          />
+          %
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Rounding
+          <select value={rules.rounding} onChange={(e) => update({ rounding: e.target.value as RoundingMode })} className={selectClass}>
+            {(Object.keys(ROUNDING_MODE_LABELS) as RoundingMode[]).map(mode => (
+              <option key={mode} value={mode}>{ROUNDING_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+          <select value={rules.roundingUnit} onChange={(e) => update({ roundingUnit: Number(e.target.value) as BillingRules['roundingUnit'] })} className={selectClass}>
+            <option value={1}>to 1</option>
+            <option value={10}>to 10</option>
+          </select>
+          <select value={rules.roundingScope} onChange={(e) => update({ roundingScope: e.target.value as BillingRules['roundingScope'] })} className={selectClass}>
+            <option value="line">on every line</option>
+            <option value="total">on the total only</option>
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Currency
+          <select value={rules.currency} onChange={(e) => update({ currency: e.target.value })} className={selectClass}>
+            {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+          <select value={rules.locale} onChange={(e) => update({ locale: e.target.value })} className={selectClass}>
+            {LOCALES.map(locale => <option key={locale} value={locale}>{locale}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        Example: a supply value of {SAMPLE_SUPPLY.toLocaleString(rules.locale)} becomes {formatMoney(sample.supply, rules)} + VAT {formatMoney(sample.vat, rules)} = <span className="font-semibold text-gray-600">{formatMoney(sample.total, rules)}</span>.
+        Tenants marked VAT-exempt are billed without VAT.
+      </p>
+    </div>
+  );
+};
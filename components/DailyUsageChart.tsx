@@ -0,0 +1,45 @@
+import React from 'react';
+import { AnalysisResult } from '../types';
+import { findRowIndex, getDailyUsage } from '../services/readingTableService';
+import { formatReadingDate } from '../services/dateService';
+
+interface DailyUsageChartProps {
+  result: AnalysisResult;
+  height?: number;
+}
+
+// Day-by-day usage from the reading table: billed days in blue, days outside the
+// billing window in grey, and drops in the register in red
+export const DailyUsageChart: React.FC<DailyUsageChartProps> = ({ result, height = 80 }) => {
+  const rows = result.rows || [];
+  if (rows.length < 2) return null;
+
+  const days = getDailyUsage(rows, result.multiplier);
+  const startIdx = findRowIndex(rows, result.startReading);
+  const endIdx = findRowIndex(rows, result.endReading);
+  const maxValue = Math.max(...days.map(d => Math.abs(d.usage)), 1);
+  const barWidth = 100 / days.length;
+  const chartHeight = height - 12;
+
+  return (
+    <svg viewBox={`0 0 100 ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }} role="img" aria-label="Daily usage">
+      {days.map((day, i) => {
+        const barHeight = Math.max((Math.abs(day.usage) / maxValue) * (chartHeight - 4), 0.5);
+        const billed = startIdx !== -1 && endIdx !== -1 && i >= startIdx && i < endIdx;
+        const color = day.usage < 0 ? 'fill-red-500' : billed ? 'fill-blue-500' : 'fill-gray-300';
+        const x = i * barWidth + barWidth * 0.1;
+        return (
+          <g key={i}>
+            <title>{`${formatReadingDate(day.date)}: ${day.usage.toLocaleString()} kWh`}</title>
+            <rect x={x} y={chartHeight - barHeight} width={barWidth * 0.8} height={barHeight} rx={0.3} className={color} />
+            {(i === 0 || i === days.length - 1 || i % 7 === 0) && (
+              <text x={x + barWidth * 0.4} y={height - 2} textAnchor="middle" className="fill-gray-400" style={{ fontSize: 3 }}>
+                {formatReadingDate(day.date).slice(5, 10)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import { BoundingBox, ReadingRegions } from '../types';
+import { isUsableCrop } from '../services/regionService';
+
+interface HighlightedImageProps {
+  src: string;
+  alt: string;
+  regions?: ReadingRegions;
+  crop?: BoundingBox; // Area the last extraction was limited to
+  className?: string; // Size constraints for the <img>
+  selecting?: boolean;
+  selection?: BoundingBox | null;
+  onSelectionChange?: (box: BoundingBox | null) => void;
+  onClick?: (e: React.MouseEvent) => void;
+}
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`
+});
+
+// Image with the start/end rows outlined. The wrapper shrinks to the rendered image,
+// so percentages line up with the picture rather than letterboxing.
+export const HighlightedImage: React.FC<HighlightedImageProps> = ({
+  src,
+  alt,
+  regions,
+  crop,
+  className = '',
+  selecting = false,
+  selection,
+  onSelectionChange,
+  onClick
+}) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [dragOrigin, setDragOrigin] = useState<{ x: number; y: number } | null>(null);
+
+  const toFraction = (e: React.PointerEvent) => {
+    const rect = wrapperRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!selecting) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragOrigin(toFraction(e));
+    onSelectionChange?.(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!selecting || !dragOrigin) return;
+    const p = toFraction(e);
+    onSelectionChange?.({
+      x: Math.min(p.x, dragOrigin.x),
+      y: Math.min(p.y, dragOrigin.y),
+      width: Math.abs(p.x - dragOrigin.x),
+      height: Math.abs(p.y - dragOrigin.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragOrigin) return;
+    setDragOrigin(null);
+    if (selection && !isUsableCrop(selection)) onSelectionChange?.(null);
+  };
+
+  return (
+    <div
+      ref={wrapperRef}
+      className={`relative inline-block max-w-full ${selecting ? 'cursor-crosshair touch-none' : ''}`}
+      onClick={onClick}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <img src={src} alt={alt} draggable={false} className={`block ${className}`} />
+
+      {crop && !selecting && (
+        <div className="absolute border border-dashed border-white/80 pointer-events-none" style={boxStyle(crop)} title="Extraction area" />
+      )}
+      {regions?.start && (
+        <div className="absolute border-2 border-amber-400 bg-amber-300/20 rounded-sm pointer-events-none" style={boxStyle(regions.start)}>
+          <span className="absolute -top-4 left-0 text-[9px] font-bold bg-amber-400 text-amber-950 px-1 rounded-sm">START</span>
+        </div>
+      )}
+      {regions?.end && (
+        <div className="absolute border-2 border-blue-500 bg-blue-400/20 rounded-sm pointer-events-none" style={boxStyle(regions.end)}>
+          <span className="absolute -top-4 left-0 text-[9px] font-bold bg-blue-500 text-white px-1 rounded-sm">END</span>
+        </div>
+      )}
+      {selecting && selection && (
+        <div className="absolute border-2 border-green-400 bg-green-400/10 pointer-events-none" style={boxStyle(selection)} />
+      )}
+    </div>
+  );
+};
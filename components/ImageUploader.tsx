@@ -1,5 +1,5 @@
 import React, { useRef, useState } from 'react';
-import { Upload, X, Plus } from 'lucide-react';
+import { Upload, X, Plus, FileSpreadsheet } from 'lucide-react';
 import { AnalysisItem } from '../types';
 
 interface ImageUploaderProps {
@@ -50,11 +50,18 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImagesSelect, it
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
           {items.map((item, index) => (
             <div key={`${item.file.name}-${index}`} className="relative group aspect-square rounded-xl border border-gray-200 bg-white shadow-sm overflow-hidden">
-              <img 
-                src={item.previewUrl || item.thumbnailUrl} 
-                alt={`Preview ${index}`} 
-                className="w-full h-full object-cover"
-              />
+              {item.imported ? (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-2 bg-green-50 text-green-700 p-2">
+                  <FileSpreadsheet className="w-8 h-8" />
+                  <span className="text-xs font-medium truncate w-full text-center">{item.result?.meterLabel || item.file.name}</span>
+                </div>
+              ) : (
+                <img 
+                  src={item.previewUrl || item.thumbnailUrl} 
+                  alt={`Preview ${index}`} 
+                  className="w-full h-full object-cover"
+                />
+              )}
               <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center p-2">
                  <p className="text-white text-xs font-medium truncate w-full text-center mb-2 px-1">{item.file.name}</p>
                  <button 
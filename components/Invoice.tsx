@@ -1,29 +1,30 @@
 
 import React, { useEffect, useState } from 'react';
-import { Tenant, AnalysisResult } from '../types';
-import { FileImage, Download, ZoomIn, X, ImageOff, Check, Loader2 } from 'lucide-react';
-import html2canvas from 'html2canvas';
-import { jsPDF } from 'jspdf';
-
-interface InvoiceData {
-  tenant: Tenant;
-  items: {
-    meterName: string;
-    result: AnalysisResult;
-    file: File;
-    cost: number;
-    isShared?: boolean;
-    thumbnailUrl?: string;
-  }[];
-  totalUsage: number;
-  totalCost: number;
-}
+import { BillingRules, InvoiceData, IssuerProfile } from '../types';
+import { FileImage, Download, ZoomIn, X, ImageOff, Check, Loader2, Share2, Stamp, Ban, RefreshCw, AlertTriangle, FileSpreadsheet } from 'lucide-react';
+import { createShareLink } from '../services/shareService';
+import { createInvoicePdf } from '../services/pdfService';
+import { createInvoiceWorkbook, createReadingsCsv, downloadBlob } from '../services/exportService';
+import { UsageTrendChart, UsageDeltaBadge } from './UsageTrendChart';
+import { DailyUsageChart } from './DailyUsageChart';
+import { HighlightedImage } from './HighlightedImage';
+import { formatReadingDate } from '../services/dateService';
+import { ALLOCATION_METHOD_LABELS } from '../services/allocationService';
+import { getRawUsage } from '../services/meterService';
+import { formatAmount, formatMoney, getCurrencySymbol } from '../services/billingRulesService';
+import { hasIssuerDetails } from '../services/issuerService';
+import { getInvoiceSettings } from '../services/invoiceLedgerService';
 
 interface InvoiceProps {
   invoices: InvoiceData[];
   unitPrice: number;
   isSharedView?: boolean;
   showCost: boolean;
+  rules: BillingRules;
+  issuer?: IssuerProfile;
+  onIssue?: (invoices: InvoiceData[]) => void;
+  onVoid?: (invoice: InvoiceData) => void;
+  onReissue?: (invoice: InvoiceData) => void;
 }
 
 // Toast Notification Component
@@ -51,37 +52,74 @@ const EvidenceItem: React.FC<{ item: InvoiceData['items'][0], onImageClick: (url
         setPreview(item.thumbnailUrl);
         return;
     }
-    if (!item.isShared && item.file.size > 0) {
+    if (!item.isShared && !item.imported && item.file.size > 0) {
         const url = URL.createObjectURL(item.file);
         setPreview(url);
         return () => URL.revokeObjectURL(url);
     }
-  }, [item.file, item.isShared, item.thumbnailUrl]);
+  }, [item.file, item.isShared, item.imported, item.thumbnailUrl]);
 
   return (
     <div className="evidence-item-card bg-white border border-gray-200 rounded-lg p-6 shadow-sm mb-6 break-inside-avoid">
       <div className="mb-4 pb-4 border-b border-gray-100 flex justify-between items-center">
         <h4 className="font-bold text-gray-800 text-xl">{item.meterName || 'Meter'}</h4>
-        <span className="text-sm bg-gray-100 text-gray-600 px-3 py-1.5 rounded font-mono font-bold">Usage: {item.result.usage} kWh</span>
+        <div className="flex items-center gap-2">
+          <span className="text-sm bg-gray-100 text-gray-600 px-3 py-1.5 rounded font-mono font-bold">Usage: {item.result.usage} kWh</span>
+          {item.netUsage !== item.result.usage && (
+            <span className="text-sm bg-blue-50 text-blue-700 px-3 py-1.5 rounded font-mono font-bold" title="After subtracting sub-meters">Net: {item.netUsage} kWh</span>
+          )}
+        </div>
       </div>
+      {item.previousUsage !== undefined && (
+        <div className="mb-4 flex flex-col gap-2">
+          <div className="flex items-center justify-end gap-2 text-xs text-gray-500">
+            Last month: {item.previousUsage.toLocaleString()} kWh
+            <UsageDeltaBadge currentUsage={item.result.usage} previousUsage={item.previousUsage} />
+          </div>
+          {item.history && item.history.length > 0 && (
+            <UsageTrendChart history={item.history} currentUsage={item.result.usage} height={72} />
+          )}
+        </div>
+      )}
       <div className="grid grid-cols-1 gap-6">
         
+        {item.result.multiplier && (
+          <div className="text-xs text-gray-500 font-mono bg-gray-50 rounded px-3 py-2">
+            Register {item.result.startReading.value} → {item.result.endReading.value} = {getRawUsage(item.result).toLocaleString()} {item.result.rawUnit || 'kWh'}
+            {' '}× {item.result.multiplier} (CT) = <span className="font-bold text-gray-800">{item.result.usage.toLocaleString()} kWh</span>
+          </div>
+        )}
+
+        {item.result.rows && item.result.rows.length > 1 && (
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Daily usage ({item.result.rows.length} readings)</div>
+            <DailyUsageChart result={item.result} height={64} />
+          </div>
+        )}
+
         {/* Data Section */}
         <div className="flex justify-between border-b border-gray-100 pb-2 mb-2">
            <div className="text-left">
               <div className="text-xs text-gray-500 mb-1">Previous</div>
               <div className="font-mono text-base font-semibold">{item.result.startReading.value}</div>
-              <div className="text-xs text-gray-400">{item.result.startReading.date}</div>
+              <div className="text-xs text-gray-400">{formatReadingDate(item.result.startReading.date)}</div>
            </div>
           
            <div className="text-right">
               <div className="text-xs text-gray-500 mb-1">Current</div>
               <div className="font-mono text-base font-semibold text-blue-600">{item.result.endReading.value}</div>
-              <div className="text-xs text-gray-400">{item.result.endReading.date}</div>
+              <div className="text-xs text-gray-400">{formatReadingDate(item.result.endReading.date)}</div>
            </div>
         </div>
         
         {/* Image Section */}
+        {item.imported ? (
+          <div className="w-full bg-gray-50 rounded border border-gray-200 px-4 py-3 flex items-center gap-2 text-sm text-gray-500">
+            <FileSpreadsheet className="w-4 h-4 shrink-0" />
+            Readings imported from the metering software export
+            {!item.isShared && <span className="font-mono text-gray-400 truncate notranslate" translate="no">({item.file.name})</span>}
+          </div>
+        ) : (
         <div 
           className="w-full relative group cursor-pointer" 
           onClick={() => preview && onImageClick(preview)}
@@ -92,11 +130,14 @@ const EvidenceItem: React.FC<{ item: InvoiceData['items'][0], onImageClick: (url
                    ALWAYS LARGE SIZE (500px)
                    This matches the user request for "PDF Like Size" in Web View
                 */}
-                <img 
-                    src={preview} 
-                    alt="Meter Proof" 
-                    className="w-full h-[500px] object-contain bg-black/5 rounded border border-gray-200 hover:brightness-95 transition-all" 
-                />
+                <div className="w-full h-[500px] flex items-center justify-center bg-black/5 rounded border border-gray-200 hover:brightness-95 transition-all">
+                    <HighlightedImage
+                        src={preview}
+                        alt="Meter Proof"
+                        regions={item.result.regions}
+                        className="max-w-full max-h-[498px] object-contain"
+                    />
+                </div>
                 <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
                     <div className="bg-black/50 text-white p-3 rounded-full backdrop-blur-sm">
                         <ZoomIn className="w-6 h-6" />
@@ -110,125 +151,86 @@ const EvidenceItem: React.FC<{ item: InvoiceData['items'][0], onImageClick: (url
                </div>
            )}
         </div>
+        )}
       </div>
     </div>
   );
 };
 
-export const Invoice: React.FC<InvoiceProps> = ({ invoices, unitPrice, isSharedView, showCost }) => {
+export const Invoice: React.FC<InvoiceProps> = ({ invoices, unitPrice, isSharedView, showCost, rules, issuer, onIssue, onVoid, onReissue }) => {
   const [viewingImageUrl, setViewingImageUrl] = useState<string | null>(null);
   const [toastMsg, setToastMsg] = useState<string | null>(null);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [sharingIdx, setSharingIdx] = useState<number | null>(null);
   
   const showToast = (msg: string) => setToastMsg(msg);
 
+  const handleShare = async (invoice: InvoiceData, idx: number) => {
+    if (sharingIdx !== null) return;
+    setSharingIdx(idx);
+
+    try {
+      const settings = getInvoiceSettings(invoice, rules, issuer);
+      const { url, omittedImages } = await createShareLink(invoice, unitPrice, showCost, settings.rules, settings.issuer);
+      try {
+        await navigator.clipboard.writeText(url);
+      } catch (e) {
+        // Clipboard API can be blocked (e.g. non-secure origin); let the user copy it by hand
+        window.prompt("Copy this link and send it to the tenant:", url);
+      }
+      showToast(omittedImages > 0
+        ? `✅ Link copied (${omittedImages} image(s) left out to fit URL length)`
+        : "✅ Share link copied to clipboard");
+    } catch (error: any) {
+      console.error("Share link failed:", error);
+      showToast(`❌ ${error.message || "Failed to create share link"}`);
+    } finally {
+      setSharingIdx(null);
+    }
+  };
+
   const handleDownloadPDF = async () => {
     if (isGeneratingPdf) return;
     setIsGeneratingPdf(true);
-    showToast("Generating Multi-page PDF...");
-
-    // Slight delay to ensure UI updates
-    await new Promise(resolve => setTimeout(resolve, 100));
-
-    const pdf = new jsPDF('p', 'mm', 'a4');
-    const pageWidth = 210;
-    const pageHeight = 297;
-    const margin = 15; 
-    const contentWidth = pageWidth - (margin * 2);
+    showToast("Generating PDF...");
 
     try {
-      for (let i = 0; i < invoices.length; i++) {
-        // Add new page for each invoice (except the first one)
-        if (i > 0) pdf.addPage();
-        
-        let cursorY = margin;
-
-        // --- PAGE 1: MAIN INVOICE ONLY ---
-        const mainEl = document.getElementById(`invoice-main-${i}`);
-        if (mainEl) {
-            const canvas = await html2canvas(mainEl, { 
-                scale: 2, 
-                useCORS: true, 
-                logging: false,
-                backgroundColor: '#ffffff'
-            });
-            const imgHeight = (canvas.height * contentWidth) / canvas.width;
-            
-            pdf.addImage(canvas.toDataURL('image/jpeg', 0.8), 'JPEG', margin, cursorY, contentWidth, imgHeight);
-            // We explicitly STOP here for Page 1.
-        }
-
-        // --- PAGE 2 START: EVIDENCE SECTION ---
-        pdf.addPage();
-        cursorY = margin;
-
-        // 1. REPEAT HEADER BANNER on Page 2 (for context)
-        const bannerEl = document.getElementById(`invoice-banner-${i}`);
-        if (bannerEl) {
-             const canvas = await html2canvas(bannerEl, { scale: 2, backgroundColor: '#0f172a' });
-             const imgHeight = (canvas.height * contentWidth) / canvas.width;
-             
-             pdf.addImage(canvas.toDataURL('image/jpeg', 0.8), 'JPEG', margin, cursorY, contentWidth, imgHeight);
-             cursorY += imgHeight + 10;
-        }
-
-        // 2. EVIDENCE HEADER
-        const evHeaderEl = document.getElementById(`evidence-header-${i}`);
-        if (evHeaderEl) {
-             const canvas = await html2canvas(evHeaderEl, { scale: 2, backgroundColor: '#ffffff' });
-             const imgHeight = (canvas.height * contentWidth) / canvas.width;
-             
-             // Check space (rarely needed at top of page 2, but good practice)
-             if (cursorY + imgHeight > pageHeight - margin) {
-                 pdf.addPage();
-                 cursorY = margin;
-             }
-             
-             pdf.addImage(canvas.toDataURL('image/jpeg', 0.8), 'JPEG', margin, cursorY, contentWidth, imgHeight);
-             cursorY += imgHeight + 5;
-        }
-
-        // 3. EVIDENCE ITEMS
-        const evidenceList = document.getElementById(`evidence-list-${i}`);
-        if (evidenceList) {
-            // Select all individual cards
-            const items = evidenceList.querySelectorAll('.evidence-item-card');
-            
-            for (let j = 0; j < items.length; j++) {
-                const itemEl = items[j] as HTMLElement;
-                
-                // Capture individual item
-                const canvas = await html2canvas(itemEl, { 
-                    scale: 2, 
-                    useCORS: true, 
-                    backgroundColor: '#ffffff' 
-                });
-                const imgHeight = (canvas.height * contentWidth) / canvas.width;
-                
-                // Check if it fits on current page
-                if (cursorY + imgHeight > pageHeight - margin) {
-                    pdf.addPage();
-                    cursorY = margin;
-                }
-                
-                pdf.addImage(canvas.toDataURL('image/jpeg', 0.7), 'JPEG', margin, cursorY, contentWidth, imgHeight);
-                cursorY += imgHeight + 5; // spacing between items
-            }
-        }
-      }
-
+      const pdf = await createInvoicePdf(invoices, { unitPrice, showCost, rules, issuer });
       pdf.save(`Invoices_${new Date().toISOString().slice(0,10)}.pdf`);
       showToast("✅ PDF Downloaded Successfully");
-    } catch (error) {
+    } catch (error: any) {
       console.error("PDF Generation failed:", error);
-      showToast("❌ Failed to generate PDF");
+      showToast(`❌ ${error.message || "Failed to generate PDF"}`);
     } finally {
       setIsGeneratingPdf(false);
     }
   };
 
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    if (isExporting) return;
+    setIsExporting(true);
+    const fileName = `Invoices_${new Date().toISOString().slice(0,10)}`;
+
+    try {
+      if (format === 'csv') {
+        downloadBlob(createReadingsCsv(invoices, rules), `${fileName}.csv`);
+      } else {
+        downloadBlob(await createInvoiceWorkbook(invoices, rules), `${fileName}.xlsx`);
+      }
+      showToast(`✅ ${format.toUpperCase()} exported`);
+    } catch (error: any) {
+      console.error("Export failed:", error);
+      showToast(`❌ ${error.message || "Failed to export"}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   if (invoices.length === 0) return null;
 
+  const drafts = invoices.filter(i => !i.issued);
+
   return (
     <div className="space-y-12 relative">
       
@@ -239,7 +241,7 @@ export const Invoice: React.FC<InvoiceProps> = ({ invoices, unitPrice, isSharedV
         <div className="fixed inset-0 z-[9999] bg-white/90 backdrop-blur-sm flex flex-col items-center justify-center">
           <Loader2 className="w-12 h-12 text-blue-600 animate-spin mb-4" />
           <h3 className="text-xl font-bold text-gray-800">Processing Pages...</h3>
-          <p className="text-gray-500">Creating smart paginated PDF</p>
+          <p className="text-gray-500">Laying out invoices and evidence</p>
         </div>
       )}
 
@@ -265,38 +267,153 @@ export const Invoice: React.FC<InvoiceProps> = ({ invoices, unitPrice, isSharedV
         <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 flex justify-between items-center mb-8 print:hidden relative z-40">
             <div>
             <h2 className="font-bold text-gray-800">Generated Invoices ({invoices.length})</h2>
-            <p className="text-sm text-gray-500">Download formatted PDFs.</p>
+            <p className="text-sm text-gray-500">
+              {drafts.length > 0 ? `${drafts.length} draft(s) not yet issued.` : 'All invoices issued.'} Download PDFs or export to a spreadsheet.
+            </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {onIssue && drafts.length > 0 && (
+                <button
+                    type="button"
+                    onClick={() => onIssue(drafts)}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 font-medium transition-colors text-sm"
+                >
+                    <Stamp className="w-4 h-4" />
+                    Issue All ({drafts.length})
+                </button>
+              )}
+              <button
+                  type="button"
+                  onClick={() => handleExport('csv')}
+                  disabled={isExporting}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 font-medium transition-colors text-sm disabled:opacity-50"
+                  title="One row per meter"
+              >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  CSV
+              </button>
+              <button
+                  type="button"
+                  onClick={() => handleExport('xlsx')}
+                  disabled={isExporting}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 font-medium transition-colors text-sm disabled:opacity-50"
+                  title="Readings sheet plus a per-tenant summary with VAT and totals"
+              >
+                  {isExporting ? <Loader2 className="w-4 h-4 animate-spin"/> : <FileSpreadsheet className="w-4 h-4" />}
+                  Excel
+              </button>
+              <button 
+                  type="button"
+                  onClick={handleDownloadPDF}
+                  disabled={isGeneratingPdf}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 font-medium transition-colors text-sm disabled:opacity-50"
+              >
+                  {isGeneratingPdf ? <Loader2 className="w-4 h-4 animate-spin"/> : <Download className="w-4 h-4" />}
+                  Download All PDF
+              </button>
             </div>
-            <button 
-                type="button"
-                onClick={handleDownloadPDF}
-                disabled={isGeneratingPdf}
-                className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 font-medium transition-colors text-sm disabled:opacity-50"
-            >
-                {isGeneratingPdf ? <Loader2 className="w-4 h-4 animate-spin"/> : <Download className="w-4 h-4" />}
-                Download All PDF
-            </button>
         </div>
       )}
 
-      {invoices.map((invoice, idx) => (
+      {invoices.map((invoice, idx) => {
+        const showTrend = invoice.items.some(item => item.previousUsage !== undefined);
+        // Gross and net columns only matter when some meter has sub-meters subtracted
+        const showNet = invoice.items.some(item => item.netUsage !== item.result.usage);
+        const grossSubtotal = parseFloat((
+          invoice.items.reduce((acc, item) => acc + item.result.usage, 0) +
+          (invoice.sharedItems || []).reduce((acc, item) => acc + item.usage, 0)
+        ).toFixed(2));
+        const meterSubtotal = invoice.items.reduce((acc, item) => acc + item.cost, 0) +
+          (invoice.sharedItems || []).reduce((acc, item) => acc + item.cost, 0);
+        const { totals, changedSinceIssue } = invoice;
+        // Issued invoices keep the rules and supplier they were issued with
+        const { rules: invoiceRules, issuer: invoiceIssuer } = getInvoiceSettings(invoice, rules, issuer);
+        const supplier = hasIssuerDetails(invoiceIssuer) ? invoiceIssuer : undefined;
+        const currencySymbol = getCurrencySymbol(invoiceRules);
+        return (
         <div 
           key={invoice.tenant.id} 
           id={`invoice-card-${idx}`}
           className="bg-white shadow-2xl rounded-none md:rounded-lg overflow-hidden max-w-[210mm] mx-auto mb-16 relative group"
         >
-          {/* SECTION 1: MAIN INFO (Header + Table) - Captured Separately */}
-          <div id={`invoice-main-${idx}`} className="bg-white p-0">
-            {/* Invoice Header (Also ID'd for separate capture on Page 2) */}
-            <div id={`invoice-banner-${idx}`} className="bg-slate-900 text-white p-8">
+          {/* Per-invoice actions */}
+          {!isSharedView && (
+            <div className="bg-gray-50 border-b border-gray-200 px-4 py-2 flex flex-wrap items-center justify-end gap-1 print:hidden">
+              {changedSinceIssue && (
+                <span className="mr-auto text-xs text-amber-700 flex items-center gap-1">
+                  <AlertTriangle className="w-3.5 h-3.5" /> Shown as issued; current readings or rates give different figures
+                </span>
+              )}
+              {!invoice.issued && onIssue && (
+                <button
+                  type="button"
+                  onClick={() => onIssue([invoice])}
+                  className="text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 px-3 py-1.5 rounded-lg flex items-center gap-2 font-medium transition-colors"
+                >
+                  <Stamp className="w-4 h-4" />
+                  Issue invoice
+                </button>
+              )}
+              {invoice.issued && onReissue && (
+                <button
+                  type="button"
+                  onClick={() => onReissue(invoice)}
+                  className="text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 px-3 py-1.5 rounded-lg flex items-center gap-2 font-medium transition-colors"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  Void &amp; reissue
+                </button>
+              )}
+              {invoice.issued && onVoid && (
+                <button
+                  type="button"
+                  onClick={() => onVoid(invoice)}
+                  className="text-sm text-red-600 hover:text-red-700 hover:bg-red-50 px-3 py-1.5 rounded-lg flex items-center gap-2 font-medium transition-colors"
+                >
+                  <Ban className="w-4 h-4" />
+                  Void
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => handleShare(invoice, idx)}
+                disabled={sharingIdx !== null}
+                className="text-sm text-blue-600 hover:text-blue-800 hover:bg-blue-50 px-3 py-1.5 rounded-lg flex items-center gap-2 font-medium transition-colors disabled:opacity-50"
+              >
+                {sharingIdx === idx ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />}
+                Share with tenant
+              </button>
+            </div>
+          )}
+
+          {/* SECTION 1: MAIN INFO (Header + Table) */}
+          <div className="bg-white p-0">
+            {/* Invoice Header */}
+            <div className="bg-slate-900 text-white p-8">
                 <div className="flex justify-between items-start">
-                <div>
+                <div className="flex items-start gap-4">
+                  {supplier?.logo && (
+                    <div className="bg-white rounded-lg p-2 shrink-0">
+                      <img src={supplier.logo} alt={supplier.companyName} className="h-14 w-auto max-w-[120px] object-contain" />
+                    </div>
+                  )}
+                  <div>
                     <h1 className="text-3xl font-bold uppercase tracking-wider mb-2">Electricity Invoice</h1>
                     <p className="text-slate-400">Utility Charge Statement</p>
+                  </div>
                 </div>
                 <div className="text-right">
                     <h2 className="text-2xl font-bold">{invoice.tenant.name}</h2>
-                    <p className="text-sm text-slate-400 mt-1">Date: {new Date().toLocaleDateString()}</p>
+                    {invoice.issued ? (
+                      <div className="text-sm text-slate-400 mt-1 space-y-0.5">
+                        <p>Invoice No. <span className="font-mono text-white">{invoice.issued.number}</span></p>
+                        <p>Issued {invoice.issued.issueDate} · Due {invoice.issued.dueDate}</p>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-slate-400 mt-1">
+                        <span className="font-bold text-amber-400">DRAFT</span> · Date: {new Date().toLocaleDateString()}
+                      </p>
+                    )}
                 </div>
                 </div>
             </div>
@@ -304,15 +421,36 @@ export const Invoice: React.FC<InvoiceProps> = ({ invoices, unitPrice, isSharedV
             {/* Body */}
             {/* INCREASED PADDING HERE: pb-24 (was pb-0) */}
             <div className="p-8 pb-24">
-                <div className="grid grid-cols-2 gap-8 mb-8">
+                <div className={`grid gap-8 mb-8 ${supplier ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                {supplier && (
+                  <div>
+                      <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Supplier</h3>
+                      <p className="text-lg font-bold text-gray-800">{supplier.companyName}</p>
+                      <div className="text-xs text-gray-500 space-y-0.5 mt-1">
+                        {supplier.registrationNumber && <p>Business Reg. No. <span className="font-mono text-gray-700">{supplier.registrationNumber}</span></p>}
+                        {supplier.representative && <p>Representative {supplier.representative}</p>}
+                        {supplier.address && <p>{supplier.address}</p>}
+                      </div>
+                  </div>
+                )}
                 <div>
                     <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Bill To</h3>
                     <p className="text-lg font-bold text-gray-800">{invoice.tenant.name}</p>
+                    {invoice.tenant.registrationNumber && (
+                      <p className="text-xs text-gray-500 mt-1">Business Reg. No. <span className="font-mono text-gray-700">{invoice.tenant.registrationNumber}</span></p>
+                    )}
                 </div>
                 {showCost && (
                   <div className="text-right">
                       <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Applied Rate</h3>
-                      <p className="text-gray-800 font-mono">₩ {unitPrice.toLocaleString()} / kWh</p>
+                      {invoice.tariff ? (
+                        <p className="text-gray-800 font-medium">
+                          {invoice.tariff.name}
+                          {invoice.seasonName && <span className="text-gray-500 text-sm"> · {invoice.seasonName}</span>}
+                        </p>
+                      ) : (
+                        <p className="text-gray-800 font-mono">{formatMoney(invoice.unitRate ?? unitPrice, invoiceRules)} / kWh</p>
+                      )}
                   </div>
                 )}
                 </div>
@@ -324,57 +462,138 @@ export const Invoice: React.FC<InvoiceProps> = ({ invoices, unitPrice, isSharedV
                         <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">Meter Name</th>
                         <th scope="col" className="px-6 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">Prev Reading</th>
                         <th scope="col" className="px-6 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">Curr Reading</th>
-                        <th scope="col" className="px-6 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">Usage (kWh)</th>
-                        {showCost && <th scope="col" className="px-6 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">Amount (₩)</th>}
+                        <th scope="col" className="px-6 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">{showNet ? 'Gross (kWh)' : 'Usage (kWh)'}</th>
+                        {showNet && <th scope="col" className="px-6 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">Net (kWh)</th>}
+                        {showTrend && <th scope="col" className="px-6 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">vs Last Month</th>}
+                        {showCost && <th scope="col" className="px-6 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">Amount ({currencySymbol})</th>}
                     </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                     {invoice.items.map((item, itemIdx) => (
                         <tr key={itemIdx}>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{item.meterName || `Meter #${itemIdx + 1}`}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {item.meterName || `Meter #${itemIdx + 1}`}
+                          {item.result.multiplier && <span className="ml-2 text-[10px] font-bold text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded font-mono">×{item.result.multiplier}</span>}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right font-mono">{item.result.startReading.value.toLocaleString()}</td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right font-mono">{item.result.endReading.value.toLocaleString()}</td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-bold font-mono">{item.result.usage.toLocaleString()}</td>
-                        {showCost && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-mono">{(item.result.usage * unitPrice).toLocaleString()}</td>}
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-mono ${showNet ? 'text-gray-500' : 'text-gray-900 font-bold'}`}>{item.result.usage.toLocaleString()}</td>
+                        {showNet && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-bold font-mono">{item.netUsage.toLocaleString()}</td>}
+                        {showTrend && (
+                          <td className="px-6 py-4 whitespace-nowrap text-right">
+                            {item.previousUsage !== undefined
+                              ? <UsageDeltaBadge currentUsage={item.result.usage} previousUsage={item.previousUsage} />
+                              : <span className="text-xs text-gray-400">—</span>}
+                          </td>
+                        )}
+                        {showCost && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-mono">{formatAmount(item.cost, invoiceRules)}</td>}
+                        </tr>
+                    ))}
+                    {invoice.sharedItems?.map((item, itemIdx) => (
+                        <tr key={`shared-${itemIdx}`}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {item.meterName}
+                          <span className="ml-2 text-[10px] font-bold uppercase text-purple-600 bg-purple-50 px-1.5 py-0.5 rounded">Shared</span>
+                        </td>
+                        <td colSpan={2} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                          {ALLOCATION_METHOD_LABELS[item.method]} · {(item.share * 100).toFixed(1)}%
+                        </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-mono ${showNet ? 'text-gray-500' : 'text-gray-900 font-bold'}`}>{item.usage.toLocaleString()}</td>
+                        {showNet && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-bold font-mono">{item.usage.toLocaleString()}</td>}
+                        {showTrend && <td></td>}
+                        {showCost && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-mono">{formatAmount(item.cost, invoiceRules)}</td>}
                         </tr>
                     ))}
                     </tbody>
                     <tfoot className="bg-gray-50 font-bold">
                     <tr>
                         <td colSpan={3} className="px-6 py-4 text-right text-sm text-gray-900 uppercase">Subtotal</td>
+                        {showNet && <td className="px-6 py-4 text-right text-sm text-gray-500 font-mono">{grossSubtotal.toLocaleString()}</td>}
                         <td className="px-6 py-4 text-right text-sm text-gray-900 font-mono">{invoice.totalUsage.toLocaleString()}</td>
-                        {showCost && <td className="px-6 py-4 text-right text-sm text-gray-900 font-mono">{invoice.totalCost.toLocaleString()}</td>}
+                        {showTrend && <td></td>}
+                        {showCost && <td className="px-6 py-4 text-right text-sm text-gray-900 font-mono">{formatAmount(meterSubtotal, invoiceRules)}</td>}
                     </tr>
+                    {showCost && invoice.adjustments?.map((line, lineIdx) => (
+                        <tr key={`adj-${lineIdx}`} className="font-normal">
+                        <td colSpan={4 + (showTrend ? 1 : 0) + (showNet ? 1 : 0)} className="px-6 py-3 text-right text-sm text-gray-700">{line.label}</td>
+                        <td className={`px-6 py-3 whitespace-nowrap text-sm text-right font-mono ${line.amount < 0 ? 'text-green-600' : 'text-gray-900'}`}>{formatAmount(line.amount, invoiceRules)}</td>
+                        </tr>
+                    ))}
                     </tfoot>
                 </table>
                 </div>
 
+                {showCost && invoice.charges && invoice.charges.length > 0 && (
+                  <div className="mb-8">
+                    <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">Charge Calculation</h3>
+                    <table className="min-w-full text-sm">
+                      <tbody className="divide-y divide-gray-100">
+                        {invoice.charges.map((line, lineIdx) => (
+                          <tr key={lineIdx}>
+                            <td className="py-2 text-gray-700">{line.label}</td>
+                            <td className="py-2 text-right text-gray-500 font-mono">
+                              {line.quantity !== undefined && line.rate !== undefined
+                                ? `${line.quantity.toLocaleString()} kWh × ${formatMoney(line.rate, invoiceRules)}`
+                                : ''}
+                            </td>
+                            <td className="py-2 text-right text-gray-900 font-mono w-32">{formatMoney(line.amount, invoiceRules)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
                 {showCost && (
                   <div className="flex justify-end">
                     <div className="w-full sm:w-1/2 md:w-1/3 space-y-3">
                         <div className="flex justify-between text-sm text-gray-600">
                         <span>Supply Value</span>
-                        <span>₩ {invoice.totalCost.toLocaleString()}</span>
+                        <span>{formatMoney(totals.supply, invoiceRules)}</span>
                         </div>
                         <div className="flex justify-between text-sm text-gray-600">
-                        <span>VAT (10%)</span>
-                        <span>₩ {Math.floor(invoice.totalCost * 0.1).toLocaleString()}</span>
+                        <span>{totals.vatRate > 0 ? `VAT (${totals.vatRate}%)` : 'VAT (exempt)'}</span>
+                        <span>{formatMoney(totals.vat, invoiceRules)}</span>
                         </div>
                         <div className="border-t border-gray-300 pt-3 flex justify-between items-center">
                         <span className="text-lg font-bold text-gray-900">Total Due</span>
-                        <span className="text-2xl font-extrabold text-blue-600">₩ {Math.floor(invoice.totalCost * 1.1).toLocaleString()}</span>
+                        <span className="text-2xl font-extrabold text-blue-600">{formatMoney(totals.total, invoiceRules)}</span>
                         </div>
                     </div>
                   </div>
                 )}
+
+                {supplier && (
+                  <div className="mt-10 pt-6 border-t border-gray-200 flex justify-between items-end gap-8">
+                    <div className="text-sm">
+                      {showCost && supplier.bankAccount && (
+                        <>
+                          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Payment</h3>
+                          <p className="text-gray-800">{supplier.bankAccount}</p>
+                          {invoice.issued && <p className="text-gray-500 text-xs mt-1">Please pay by {invoice.issued.dueDate}, quoting {invoice.issued.number}.</p>}
+                        </>
+                      )}
+                    </div>
+                    <div className="text-right text-sm shrink-0">
+                      <p className="font-bold text-gray-800">{supplier.companyName}</p>
+                      <p className="relative inline-flex items-center gap-2 text-gray-600 mt-1">
+                        <span>Representative {supplier.representative}</span>
+                        <span className="relative inline-flex items-center justify-center w-10 h-10 text-gray-400">
+                          (인)
+                          {supplier.stamp && <img src={supplier.stamp} alt="Company seal" className="absolute inset-0 w-full h-full object-contain opacity-90" />}
+                        </span>
+                      </p>
+                    </div>
+                  </div>
+                )}
             </div>
           </div>
 
           {/* SECTION 2: EVIDENCE WRAPPER */}
           <div className="p-8 pt-0">
              
-            {/* 2.1 Header - Captured Separately */}
-            <div id={`evidence-header-${idx}`} className="bg-white border-t-2 border-dashed border-gray-300 pt-8 mt-8 pb-8">
+            {/* 2.1 Header */}
+            <div className="bg-white border-t-2 border-dashed border-gray-300 pt-8 mt-8 pb-8">
                <div className="border-b-2 border-black pb-4">
                   <h2 className="text-xl font-bold uppercase flex justify-between">
                     <span>Reading Evidence</span>
@@ -386,8 +605,8 @@ export const Invoice: React.FC<InvoiceProps> = ({ invoices, unitPrice, isSharedV
               </h3>
             </div>
 
-            {/* 2.2 List Items - Captured Loop-wise */}
-            <div id={`evidence-list-${idx}`} className="grid grid-cols-1 gap-8">
+            {/* 2.2 List Items */}
+            <div className="grid grid-cols-1 gap-8">
                 {invoice.items.map((item, itemIdx) => (
                   <EvidenceItem 
                     key={itemIdx} 
@@ -398,11 +617,17 @@ export const Invoice: React.FC<InvoiceProps> = ({ invoices, unitPrice, isSharedV
             </div>
 
             <div className="mt-12 text-center text-xs text-gray-400">
+              {supplier && (
+                <p className="mb-1">
+                  {[supplier.companyName, supplier.registrationNumber && `Business Reg. No. ${supplier.registrationNumber}`, supplier.address].filter(Boolean).join(' · ')}
+                </p>
+              )}
               <p>Generated by Smart Meter Analytics</p>
             </div>
           </div>
         </div>
-      ))}
+        );
+      })}
 
 
       {/* Image Viewer Modal */}
@@ -410,7 +635,6 @@ export const Invoice: React.FC<InvoiceProps> = ({ invoices, unitPrice, isSharedV
         <div 
           className="fixed inset-0 z-[100] bg-black/95 flex items-center justify-center p-4 animate-fade-in"
           onClick={() => setViewingImageUrl(null)}
-          data-html2canvas-ignore="true"
         >
           <button 
             type="button"
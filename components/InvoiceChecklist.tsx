@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { AnalysisItem, InvoiceChecklist as Checklist, MeterCheckStatus } from '../types';
+import { ClipboardCheck, ChevronDown, Copy, HelpCircle } from 'lucide-react';
+
+interface InvoiceChecklistProps {
+  checklist: Checklist;
+  items: AnalysisItem[];
+  overridden: boolean;
+  onOverride: (overridden: boolean) => void;
+  onReview: () => void;
+}
+
+const STATUS_STYLES: Record<MeterCheckStatus, { label: string; className: string }> = {
+  read: { label: 'Read', className: 'bg-green-50 text-green-700 border-green-200' },
+  pending: { label: 'Not confirmed', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  missing: { label: 'Missing', className: 'bg-red-50 text-red-700 border-red-200' },
+  duplicate: { label: 'Duplicate', className: 'bg-red-50 text-red-700 border-red-200' }
+};
+
+export const InvoiceChecklist: React.FC<InvoiceChecklistProps> = ({ checklist, items, overridden, onOverride, onReview }) => {
+  const hasIssues = checklist.issueCount > 0;
+  const [isOpen, setIsOpen] = useState(false);
+  // While invoices are blocked the reasons stay visible
+  const expanded = isOpen || (hasIssues && !overridden);
+  const fileName = (id: string) => items.find(i => i.id === id)?.file.name || id;
+  const readCount = checklist.meters.filter(m => m.status === 'read').length;
+
+  const tenantIds = [...new Set(checklist.meters.map(m => m.tenantId))];
+
+  return (
+    <div className={`mb-8 rounded-xl border print:hidden ${!hasIssues ? 'bg-white border-gray-200' : overridden ? 'bg-amber-50 border-amber-200' : 'bg-red-50 border-red-200'}`}>
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full p-4 flex items-center gap-3 text-left">
+        <ClipboardCheck className={`w-5 h-5 shrink-0 ${hasIssues ? 'text-red-500' : 'text-green-600'}`} />
+        <span className="font-bold text-gray-800">Pre-invoice Checklist</span>
+        <span className="text-sm text-gray-600">
+          {readCount} of {checklist.meters.length} meters read
+          {hasIssues && <> · <span className="font-semibold text-red-700">{checklist.issueCount} issue(s)</span></>}
+        </span>
+        <ChevronDown className={`w-4 h-4 ml-auto text-gray-400 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {tenantIds.map(tenantId => {
+              const meters = checklist.meters.filter(m => m.tenantId === tenantId);
+              return (
+                <div key={tenantId} className="bg-white rounded-lg border border-gray-200 p-3">
+                  <p className="text-xs font-bold text-gray-500 uppercase mb-2">{meters[0].tenantName}</p>
+                  <ul className="space-y-1.5">
+                    {meters.map(meter => (
+                      <li key={meter.meterName} className="flex items-start gap-2 text-sm">
+                        <span className={`shrink-0 text-[10px] font-bold uppercase px-1.5 py-0.5 rounded border ${STATUS_STYLES[meter.status].className}`}>
+                          {STATUS_STYLES[meter.status].label}
+                        </span>
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-800">{meter.meterName}</p>
+                          {meter.itemIds.map(id => (
+                            <p key={id} className="text-xs text-gray-400 truncate notranslate" translate="no">{fileName(id)}</p>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+
+          {checklist.unassignedIds.length > 0 && (
+            <div className="bg-white rounded-lg border border-gray-200 p-3">
+              <p className="text-xs font-bold text-gray-500 uppercase mb-2 flex items-center gap-1">
+                <HelpCircle className="w-3 h-3" /> Not assigned to a meter
+              </p>
+              {checklist.unassignedIds.map(id => (
+                <p key={id} className="text-sm text-gray-700 truncate notranslate" translate="no">{fileName(id)}</p>
+              ))}
+            </div>
+          )}
+
+          {checklist.duplicateImages.length > 0 && (
+            <div className="bg-white rounded-lg border border-gray-200 p-3">
+              <p className="text-xs font-bold text-gray-500 uppercase mb-2 flex items-center gap-1">
+                <Copy className="w-3 h-3" /> Identical files
+              </p>
+              {checklist.duplicateImages.map(ids => (
+                <p key={ids.join()} className="text-sm text-gray-700 notranslate" translate="no">{ids.map(fileName).join(' = ')}</p>
+              ))}
+            </div>
+          )}
+
+          {hasIssues && (
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-gray-700">
+                {overridden
+                  ? 'Invoices were generated with these issues unresolved.'
+                  : 'Draft invoices are held back until these are resolved. Issued invoices stay available.'}
+              </p>
+              <div className="flex items-center gap-2">
+                <button onClick={onReview} className="px-3 py-1.5 text-sm font-medium text-blue-700 hover:underline">
+                  Review readings
+                </button>
+                <button
+                  onClick={() => onOverride(!overridden)}
+                  className={`px-3 py-1.5 text-sm font-semibold rounded-lg border ${overridden ? 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50' : 'bg-red-600 border-red-600 text-white hover:bg-red-700'}`}
+                >
+                  {overridden ? 'Block again' : 'Generate anyway'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
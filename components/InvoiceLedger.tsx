@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { BillingRules, IssuedInvoice } from '../types';
+import { BookOpen, ChevronDown, Ban } from 'lucide-react';
+import { getInvoiceTotals } from '../services/tariffService';
+import { formatAmount, getCurrencySymbol } from '../services/billingRulesService';
+
+interface InvoiceLedgerProps {
+  ledger: IssuedInvoice[];
+  activePeriodId: string;
+  rules: BillingRules;
+  onVoid: (invoice: IssuedInvoice) => void;
+}
+
+// Every invoice ever issued, newest number first
+export const InvoiceLedger: React.FC<InvoiceLedgerProps> = ({ ledger, activePeriodId, rules, onVoid }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showAllPeriods, setShowAllPeriods] = useState(false);
+
+  const entries = ledger
+    .filter(i => showAllPeriods || i.periodId === activePeriodId)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  const voidCount = ledger.filter(i => i.status === 'void').length;
+
+  return (
+    <div className="mb-8 bg-white rounded-xl border border-gray-200 print:hidden">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full p-4 flex items-center gap-3 text-left">
+        <BookOpen className="w-5 h-5 text-gray-500 shrink-0" />
+        <span className="font-bold text-gray-800">Invoice Ledger</span>
+        <span className="text-sm text-gray-500">
+          {ledger.length} issued{voidCount > 0 && ` · ${voidCount} void`}
+        </span>
+        <ChevronDown className={`w-4 h-4 ml-auto text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4">
+          <label className="flex items-center gap-2 text-xs text-gray-500 mb-2 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={showAllPeriods}
+              onChange={(e) => setShowAllPeriods(e.target.checked)}
+              className="w-3.5 h-3.5 rounded border-gray-300"
+            />
+            Show all billing periods
+          </label>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-400 italic py-4 text-center">No invoices issued in this period.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase border-b border-gray-200">
+                    <th className="py-2 pr-4 text-left font-bold">Number</th>
+                    <th className="py-2 pr-4 text-left font-bold">Period</th>
+                    <th className="py-2 pr-4 text-left font-bold">Tenant</th>
+                    <th className="py-2 pr-4 text-left font-bold">Issued</th>
+                    <th className="py-2 pr-4 text-left font-bold">Due</th>
+                    <th className="py-2 pr-4 text-right font-bold">Total ({getCurrencySymbol(rules)})</th>
+                    <th className="py-2 pr-4 text-left font-bold">Status</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {entries.map(entry => (
+                    <tr key={entry.id} className={entry.status === 'void' ? 'text-gray-400' : 'text-gray-800'}>
+                      <td className={`py-2 pr-4 font-mono whitespace-nowrap ${entry.status === 'void' ? 'line-through' : 'font-semibold'}`}>{entry.number}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{entry.periodName}</td>
+                      <td className="py-2 pr-4">{entry.tenantName}</td>
+                      <td className="py-2 pr-4 font-mono whitespace-nowrap">{entry.issueDate}</td>
+                      <td className="py-2 pr-4 font-mono whitespace-nowrap">{entry.dueDate}</td>
+                      <td className="py-2 pr-4 font-mono text-right">{formatAmount(entry.totalDue ?? getInvoiceTotals(entry.totalCost, rules).total, entry.rules ?? rules)}</td>
+                      <td className="py-2 pr-4 text-xs">
+                        {entry.status === 'void' ? (
+                          <span title={entry.voidReason}>
+                            Void{entry.replacedBy && <> → <span className="font-mono">{entry.replacedBy}</span></>}
+                            {entry.voidReason && <span className="block text-gray-400 truncate max-w-[12rem]">{entry.voidReason}</span>}
+                          </span>
+                        ) : (
+                          <span className="text-green-700 font-semibold">
+                            Issued{entry.replaces && <span className="font-normal text-gray-500"> (replaces <span className="font-mono">{entry.replaces}</span>)</span>}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        {entry.status === 'issued' && (
+                          <button
+                            onClick={() => onVoid(entry)}
+                            className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                            title="Void invoice"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
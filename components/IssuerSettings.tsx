@@ -0,0 +1,108 @@
+import React from 'react';
+import { IssuerProfile } from '../types';
+import { ImagePlus, Trash2 } from 'lucide-react';
+import { formatBusinessNumber, isValidBusinessNumber, loadImageAsDataUrl } from '../services/issuerService';
+
+interface IssuerSettingsProps {
+  issuer: IssuerProfile;
+  onChange: (issuer: IssuerProfile) => void;
+}
+
+const TEXT_FIELDS: { key: 'companyName' | 'representative' | 'address' | 'bankAccount'; label: string; placeholder: string; wide?: boolean }[] = [
+  { key: 'companyName', label: 'Company name', placeholder: 'e.g. (주)한빛빌딩' },
+  { key: 'representative', label: 'Representative', placeholder: 'e.g. 홍길동' },
+  { key: 'address', label: 'Address', placeholder: 'e.g. 서울특별시 중구 세종대로 110', wide: true },
+  { key: 'bankAccount', label: 'Bank account', placeholder: 'e.g. KB국민은행 123456-01-234567 (예금주 홍길동)', wide: true }
+];
+
+export const IssuerSettings: React.FC<IssuerSettingsProps> = ({ issuer, onChange }) => {
+  const update = (patch: Partial<IssuerProfile>) => onChange({ ...issuer, ...patch });
+  const invalidNumber = !!issuer.registrationNumber && !isValidBusinessNumber(issuer.registrationNumber);
+
+  const handleImage = async (key: 'logo' | 'stamp', file: File | undefined) => {
+    if (!file) return;
+    try {
+      update({ [key]: await loadImageAsDataUrl(file) });
+    } catch (e: any) {
+      alert(e.message || "Could not load the image.");
+    }
+  };
+
+  const inputClass = 'w-full text-sm bg-white border border-gray-300 rounded px-2 py-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none';
+
+  const textField = (field: typeof TEXT_FIELDS[number]) => (
+    <label key={field.key} className={`flex flex-col gap-1 ${field.wide ? 'md:col-span-2' : ''}`}>
+      <span className="text-xs font-semibold text-gray-500">{field.label}</span>
+      <input
+        type="text"
+        value={issuer[field.key]}
+        placeholder={field.placeholder}
+        onChange={(e) => update({ [field.key]: e.target.value })}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  const imageField = (key: 'logo' | 'stamp', label: string) => (
+    <div className="flex items-center gap-3">
+      <div className="w-16 h-16 shrink-0 rounded border border-gray-200 bg-gray-50 flex items-center justify-center overflow-hidden">
+        {issuer[key]
+          ? <img src={issuer[key]} alt={label} className="max-w-full max-h-full object-contain" />
+          : <ImagePlus className="w-5 h-5 text-gray-300" />}
+      </div>
+      <div className="flex flex-col gap-1">
+        <span className="text-xs font-semibold text-gray-500">{label}</span>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-blue-600 hover:underline cursor-pointer">
+            {issuer[key] ? 'Replace' : 'Upload'}
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => { handleImage(key, e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </label>
+          {issuer[key] && (
+            <button
+              onClick={() => update({ [key]: undefined })}
+              className="p-0.5 text-gray-400 hover:text-red-500 rounded transition-colors"
+              title={`Remove ${label.toLowerCase()}`}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {textField(TEXT_FIELDS[0])}
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-semibold text-gray-500">Business registration no.</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={issuer.registrationNumber}
+            placeholder="123-45-67890"
+            onChange={(e) => update({ registrationNumber: formatBusinessNumber(e.target.value) })}
+            className={`${inputClass} font-mono ${invalidNumber ? 'border-amber-400 bg-amber-50' : ''}`}
+          />
+          {invalidNumber && <span className="text-xs text-amber-700">Check digit does not match; please re-check the number.</span>}
+        </label>
+        {TEXT_FIELDS.slice(1).map(textField)}
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        {imageField('logo', 'Logo')}
+        {imageField('stamp', 'Company seal')}
+      </div>
+      <p className="text-xs text-gray-400">
+        The seal is printed next to the representative's name. Use a PNG with a transparent background for the best result.
+        Logo and seal are not included in share links.
+      </p>
+    </div>
+  );
+};
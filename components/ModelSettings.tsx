@@ -0,0 +1,99 @@
+import React from 'react';
+import { ModelConfig, ModelPolicy } from '../types';
+import { Plus, Trash2, ArrowUp, ArrowDown, Cpu } from 'lucide-react';
+
+interface ModelSettingsProps {
+  policy: ModelPolicy;
+  onChange: (policy: ModelPolicy) => void;
+}
+
+export const ModelSettings: React.FC<ModelSettingsProps> = ({ policy, onChange }) => {
+  const updateModel = (idx: number, patch: Partial<ModelConfig>) => {
+    onChange({ ...policy, models: policy.models.map((m, i) => i === idx ? { ...m, ...patch } : m) });
+  };
+
+  const moveModel = (idx: number, direction: -1 | 1) => {
+    const target = idx + direction;
+    if (target < 0 || target >= policy.models.length) return;
+    const models = [...policy.models];
+    [models[idx], models[target]] = [models[target], models[idx]];
+    onChange({ ...policy, models });
+  };
+
+  const numberInput = (value: number, onValue: (v: number) => void, className = 'w-20') => (
+    <input
+      type="number"
+      min="0"
+      value={value}
+      onChange={(e) => onValue(Math.max(0, Number(e.target.value)))}
+      className={`${className} text-right font-mono text-sm border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none`}
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Cpu className="w-4 h-4 text-gray-400" />
+        <span className="text-sm text-gray-700">Gemini model chain</span>
+        <span className="text-xs text-gray-400">Tried top to bottom; each is retried on 429/503 before moving on.</span>
+      </div>
+
+      {policy.models.map((model, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <span className="w-5 text-xs font-mono text-gray-400 text-right">{idx + 1}.</span>
+          <input
+            type="text"
+            value={model.name}
+            placeholder="e.g. gemini-2.5-flash"
+            onChange={(e) => updateModel(idx, { name: e.target.value })}
+            className="flex-1 font-mono text-sm border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+          />
+          {numberInput(Math.round(model.timeoutMs / 1000), v => updateModel(idx, { timeoutMs: v * 1000 }), 'w-16')}
+          <span className="text-xs text-gray-400">s timeout</span>
+          <button
+            onClick={() => moveModel(idx, -1)}
+            disabled={idx === 0}
+            className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30 rounded transition-colors"
+            title="Move Up"
+          >
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => moveModel(idx, 1)}
+            disabled={idx === policy.models.length - 1}
+            className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30 rounded transition-colors"
+            title="Move Down"
+          >
+            <ArrowDown className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onChange({ ...policy, models: policy.models.filter((_, i) => i !== idx) })}
+            className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+            title="Remove Model"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange({ ...policy, models: [...policy.models, { name: '', timeoutMs: 60000 }] })}
+        className="flex items-center gap-1 text-xs font-semibold text-blue-600 hover:text-blue-800"
+      >
+        <Plus className="w-3.5 h-3.5" /> Add Model
+      </button>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-500">
+        <label className="flex items-center gap-1.5">
+          Retries per model {numberInput(policy.maxRetries, v => onChange({ ...policy, maxRetries: Math.round(v) }), 'w-14')}
+        </label>
+        <label className="flex items-center gap-1.5">
+          Initial backoff {numberInput(policy.baseDelayMs / 1000, v => onChange({ ...policy, baseDelayMs: v * 1000 }), 'w-14')} s
+        </label>
+        <label className="flex items-center gap-1.5">
+          Max wait {numberInput(policy.maxDelayMs / 1000, v => onChange({ ...policy, maxDelayMs: v * 1000 }), 'w-14')} s
+        </label>
+      </div>
+    </div>
+  );
+};
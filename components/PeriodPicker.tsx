@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { BillingPeriod, BillingWindow } from '../types';
+import { CalendarDays, ChevronDown, Plus, Archive, ArchiveRestore, Loader2, X } from 'lucide-react';
+import { isValidWindow } from '../services/billingWindowService';
+
+interface PeriodPickerProps {
+  periods: BillingPeriod[];
+  activePeriodId: string;
+  isSaving: boolean;
+  onSelect: (periodId: string) => void;
+  onCreate: () => void;
+  onArchive: (periodId: string) => void;
+  onReopen: (periodId: string) => void;
+  onWindowChange: (periodId: string, window?: BillingWindow) => void;
+}
+
+export const PeriodPicker: React.FC<PeriodPickerProps> = ({
+  periods,
+  activePeriodId,
+  isSaving,
+  onSelect,
+  onCreate,
+  onArchive,
+  onReopen,
+  onWindowChange
+}) => {
+  const activePeriod = periods.find(p => p.id === activePeriodId);
+  const [draft, setDraft] = useState<BillingWindow>({ start: '', end: '' });
+
+  useEffect(() => {
+    setDraft(activePeriod?.window || { start: '', end: '' });
+  }, [activePeriod?.id, activePeriod?.window]);
+
+  // Half-entered windows stay local until both dates form a valid range
+  const updateDraft = (patch: Partial<BillingWindow>) => {
+    const next = { ...draft, ...patch };
+    setDraft(next);
+    if (!activePeriod) return;
+    if (!next.start && !next.end) onWindowChange(activePeriod.id, undefined);
+    else if (isValidWindow(next)) onWindowChange(activePeriod.id, next);
+  };
+
+  const dateInputClass = "text-xs text-gray-700 bg-transparent border border-gray-200 rounded px-1 py-0.5 focus:border-blue-500 focus:outline-none";
+  const openPeriods = periods.filter(p => p.status === 'open');
+  const archivedPeriods = periods.filter(p => p.status === 'archived');
+
+  return (
+    <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-lg border border-gray-200 shadow-sm">
+      <CalendarDays className="w-4 h-4 text-gray-400" />
+      <div className="relative">
+        <select
+          className="bg-transparent text-sm font-semibold text-gray-800 pr-6 cursor-pointer focus:outline-none appearance-none"
+          style={{ WebkitAppearance: 'none', MozAppearance: 'none', appearance: 'none' }}
+          value={activePeriodId}
+          onChange={(e) => onSelect(e.target.value)}
+          title="Billing period"
+        >
+          {!activePeriod && <option value="">Loading...</option>}
+          {openPeriods.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+          {archivedPeriods.length > 0 && (
+            <optgroup label="Archived">
+              {archivedPeriods.map(p => (
+                <option key={p.id} value={p.id}>{p.name} (archived)</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <ChevronDown className="absolute right-0 top-1 w-4 h-4 text-gray-400 pointer-events-none" />
+      </div>
+
+      <div
+        className="flex items-center gap-1 ml-1 pl-2 border-l border-gray-300"
+        title="Billing window: dates of the start and end readings. Leave empty to bill the most recent complete month."
+      >
+        <input
+          type="date"
+          value={draft.start}
+          disabled={!activePeriod}
+          onChange={(e) => updateDraft({ start: e.target.value })}
+          className={dateInputClass}
+          aria-label="Billing window start"
+        />
+        <span className="text-xs text-gray-400">→</span>
+        <input
+          type="date"
+          value={draft.end}
+          disabled={!activePeriod}
+          onChange={(e) => updateDraft({ end: e.target.value })}
+          className={`${dateInputClass} ${draft.start && draft.end && !isValidWindow(draft) ? 'border-red-400' : ''}`}
+          aria-label="Billing window end"
+        />
+        {(draft.start || draft.end) && (
+          <button
+            onClick={() => updateDraft({ start: '', end: '' })}
+            className="p-0.5 text-gray-400 hover:text-red-500 rounded"
+            title="Clear window (bill the most recent complete month)"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {isSaving && <Loader2 className="w-3.5 h-3.5 text-gray-400 animate-spin" aria-label="Saving" />}
+
+      <div className="flex items-center gap-1 ml-1 pl-2 border-l border-gray-300">
+        {activePeriod?.status === 'archived' ? (
+          <button
+            onClick={() => onReopen(activePeriod.id)}
+            className="p-1 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+            title="Reopen this period"
+          >
+            <ArchiveRestore className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            onClick={() => activePeriod && onArchive(activePeriod.id)}
+            disabled={!activePeriod}
+            className="p-1 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded transition-colors disabled:opacity-50"
+            title="Archive this period"
+          >
+            <Archive className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={onCreate}
+          className="p-1 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+          title="Start a new billing period"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useRef, useState } from 'react';
+import { FileSpreadsheet, Loader2 } from 'lucide-react';
+import { ImportColumnMapping, ImportMappings } from '../types';
+import { IMPORT_ACCEPT, ImportTable, ImportedMeter, createImportedMeters, guessMapping, readImportTable } from '../services/importService';
+
+interface ReadingImporterProps {
+  mappings: ImportMappings;
+  onMappingsChange: (mappings: ImportMappings) => void;
+  onImport: (meters: ImportedMeter[]) => void;
+}
+
+const FIELDS: { key: keyof ImportColumnMapping; label: string }[] = [
+  { key: 'timestamp', label: 'Timestamp' },
+  { key: 'value', label: 'Reading (kWh)' },
+  { key: 'meterId', label: 'Meter ID' }
+];
+
+const PREVIEW_ROWS = 3;
+
+export const ReadingImporter: React.FC<ReadingImporterProps> = ({ mappings, onMappingsChange, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+  // A file whose format has no saved mapping yet, waiting for the user to pick its columns
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [notice, setNotice] = useState<{ text: string; error?: boolean; signature?: string } | null>(null);
+
+  const importTable = (source: ImportTable, columns: ImportColumnMapping, usedSaved: boolean) => {
+    try {
+      const meters = createImportedMeters(source, columns);
+      onImport(meters);
+      setTable(null);
+      setMapping(null);
+      setNotice({
+        text: `Imported ${meters.length} meter${meters.length === 1 ? '' : 's'} from ${source.fileName}${usedSaved ? ' using the saved columns' : ''}.`,
+        signature: usedSaved ? source.signature : undefined
+      });
+      return true;
+    } catch (e: any) {
+      setNotice({ text: e.message || "Could not import the readings.", error: true });
+      return false;
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+    setNotice(null);
+    try {
+      const parsed = await readImportTable(file);
+      const saved = mappings[parsed.signature];
+      if (saved && importTable(parsed, saved, true)) return;
+      setTable(parsed);
+      setMapping(saved || guessMapping(parsed));
+    } catch (e: any) {
+      setNotice({ text: e.message || "Could not read the file.", error: true });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!table || !mapping) return;
+    if (importTable(table, mapping, false)) {
+      onMappingsChange({ ...mappings, [table.signature]: mapping });
+    }
+  };
+
+  const handleForget = (signature: string) => {
+    const { [signature]: _, ...rest } = mappings;
+    onMappingsChange(rest);
+    setNotice({ text: "Saved columns removed. The next import of this format will ask for them again." });
+  };
+
+  const updateField = (key: keyof ImportColumnMapping, header: string) => {
+    if (!mapping) return;
+    const { [key]: _, ...rest } = mapping;
+    setMapping(header ? { ...mapping, [key]: header } : rest as ImportColumnMapping);
+  };
+
+  const selectClass = 'text-sm bg-white border border-gray-300 rounded px-2 py-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none';
+  const mappedHeaders = mapping ? Object.values(mapping) : [];
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-500">
+        <span>Have a meter log instead? Import readings from a CSV or Excel export of the metering software.</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isReading}
+          className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-xs font-semibold text-gray-700 hover:bg-gray-100 disabled:opacity-50 flex items-center gap-1"
+        >
+          {isReading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileSpreadsheet className="w-3.5 h-3.5" />}
+          Import CSV / Excel
+        </button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+          className="hidden"
+          accept={IMPORT_ACCEPT}
+        />
+      </div>
+
+      {notice && (
+        <div className={`text-xs rounded-lg px-3 py-2 border flex items-center justify-between gap-2 ${notice.error ? 'bg-red-50 border-red-200 text-red-700' : 'bg-green-50 border-green-200 text-green-800'}`}>
+          <span>{notice.text}</span>
+          {notice.signature && (
+            <button onClick={() => handleForget(notice.signature!)} className="shrink-0 font-semibold hover:underline">
+              Forget saved columns
+            </button>
+          )}
+        </div>
+      )}
+
+      {table && mapping && (
+        <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 space-y-3">
+          <div>
+            <p className="text-sm font-semibold text-gray-800">Map the columns of {table.fileName}</p>
+            <p className="text-xs text-gray-500">
+              Saved for files with the same header row, so this format is only mapped once.
+              Leave Meter ID empty when the file holds a single meter.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+            {FIELDS.map(field => (
+              <label key={field.key} className="flex items-center gap-2 text-sm text-gray-700">
+                {field.label}
+                <select value={mapping[field.key] || ''} onChange={(e) => updateField(field.key, e.target.value)} className={selectClass}>
+                  {field.key === 'meterId' && <option value="">— single meter —</option>}
+                  {table.headers.map(header => <option key={header} value={header}>{header}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  {table.headers.map(header => (
+                    <th key={header} className={`px-2 py-1 font-semibold whitespace-nowrap ${mappedHeaders.includes(header) ? 'text-blue-700 bg-blue-50' : ''}`}>{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr key={i} className="border-t border-gray-200 font-mono text-gray-600">
+                    {table.headers.map((header, j) => (
+                      <td key={header} className={`px-2 py-1 whitespace-nowrap ${mappedHeaders.includes(header) ? 'bg-blue-50' : ''}`}>{row[j]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-1 text-xs text-gray-400">{table.rows.length.toLocaleString()} rows</p>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => { setTable(null); setMapping(null); }}
+              className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-xs font-semibold text-gray-600 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg text-xs font-semibold text-white"
+            >
+              Import readings
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React from 'react';
+import { AllocationMethod, BuildingConfig, SharedMeter, Tenant } from '../types';
+import { Plus, Trash2, Gauge } from 'lucide-react';
+import { ALLOCATION_METHOD_LABELS } from '../services/allocationService';
+
+interface SharedMeterSettingsProps {
+  building: BuildingConfig;
+  tenants: Tenant[];
+  onChange: (building: BuildingConfig) => void;
+  onTenantsChange: (tenants: Tenant[]) => void;
+}
+
+export const SharedMeterSettings: React.FC<SharedMeterSettingsProps> = ({ building, tenants, onChange, onTenantsChange }) => {
+  const updateMeter = (meterIdx: number, patch: Partial<SharedMeter>) => {
+    onChange({ ...building, sharedMeters: building.sharedMeters.map((m, i) => i === meterIdx ? { ...m, ...patch } : m) });
+  };
+
+  const toggleParticipant = (meterIdx: number, tenantId: string) => {
+    const meter = building.sharedMeters[meterIdx];
+    // An empty list means everyone; expand it before removing someone
+    const current = meter.tenantIds.length > 0 ? meter.tenantIds : tenants.map(t => t.id);
+    const next = current.includes(tenantId) ? current.filter(id => id !== tenantId) : [...current, tenantId];
+    updateMeter(meterIdx, { tenantIds: next.length === tenants.length ? [] : next });
+  };
+
+  const addMeter = () => {
+    const meter: SharedMeter = { id: `sm-${Date.now()}`, name: 'Lobby', method: 'area', tenantIds: [] };
+    onChange({ ...building, sharedMeters: [...building.sharedMeters, meter] });
+  };
+
+  const updateTenant = (tenantId: string, patch: Partial<Tenant>) => {
+    onTenantsChange(tenants.map(t => t.id === tenantId ? { ...t, ...patch } : t));
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Master & Shared Meters */}
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-gray-400" />
+          <label className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Master meter</label>
+          <input
+            type="text"
+            value={building.masterMeter}
+            placeholder="e.g. Main Incoming (leave empty if none)"
+            onChange={(e) => onChange({ ...building, masterMeter: e.target.value })}
+            className="flex-1 text-sm border border-gray-300 rounded px-2 py-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+          />
+        </div>
+
+        {building.sharedMeters.map((meter, meterIdx) => (
+          <div key={meter.id} className="bg-gray-50 rounded-xl p-3 border border-gray-200">
+            <div className="flex items-center gap-2 mb-2">
+              <input
+                type="text"
+                value={meter.name}
+                onChange={(e) => updateMeter(meterIdx, { name: e.target.value })}
+                className="flex-1 text-sm font-bold text-gray-800 bg-transparent border border-transparent hover:border-gray-300 hover:bg-white focus:bg-white focus:border-blue-500 focus:outline-none px-1 py-0.5 rounded"
+              />
+              <select
+                value={meter.method}
+                onChange={(e) => updateMeter(meterIdx, { method: e.target.value as AllocationMethod })}
+                className="text-sm bg-white border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+              >
+                {(Object.keys(ALLOCATION_METHOD_LABELS) as AllocationMethod[]).map(method => (
+                  <option key={method} value={method}>{ALLOCATION_METHOD_LABELS[method]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onChange({ ...building, sharedMeters: building.sharedMeters.filter((_, i) => i !== meterIdx) })}
+                className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                title="Remove Shared Meter"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {tenants.map(tenant => {
+                const included = meter.tenantIds.length === 0 || meter.tenantIds.includes(tenant.id);
+                return (
+                  <label key={tenant.id} className="flex items-center gap-1 text-xs text-gray-600 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={included}
+                      onChange={() => toggleParticipant(meterIdx, tenant.id)}
+                      className="w-3.5 h-3.5 text-blue-600 rounded border-gray-300"
+                    />
+                    {tenant.name}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={addMeter}
+          className="w-full border-2 border-dashed border-gray-300 rounded-xl p-3 flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-blue-600 hover:border-blue-400 hover:bg-blue-50 transition-all font-semibold"
+        >
+          <Plus className="w-4 h-4" /> Add Shared Meter
+        </button>
+      </div>
+
+      {/* Allocation Keys per Tenant */}
+      <div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="text-left font-semibold pb-2">Company</th>
+              <th className="text-right font-semibold pb-2">Area (m²)</th>
+              <th className="text-right font-semibold pb-2">Headcount</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {tenants.map(tenant => (
+              <tr key={tenant.id}>
+                <td className="py-1.5 font-medium text-gray-700">{tenant.name}</td>
+                <td className="py-1.5 text-right">
+                  <input
+                    type="number"
+                    value={tenant.floorArea ?? ''}
+                    onChange={(e) => updateTenant(tenant.id, { floorArea: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className="w-24 text-right font-mono border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                  />
+                </td>
+                <td className="py-1.5 text-right">
+                  <input
+                    type="number"
+                    value={tenant.headcount ?? ''}
+                    onChange={(e) => updateTenant(tenant.id, { headcount: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className="w-20 text-right font-mono border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-400 mt-3">
+          Assign master and shared meter screenshots to "Building (Shared)" on the upload tab.
+        </p>
+      </div>
+    </div>
+  );
+};
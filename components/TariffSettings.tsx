@@ -0,0 +1,307 @@
+import React from 'react';
+import { Tariff, TariffSeason, TariffTier, TariffTimeBand } from '../types';
+import { Plus, Trash2, X, Receipt } from 'lucide-react';
+import { createEmptyTariff } from '../services/tariffService';
+
+interface TariffSettingsProps {
+  tariffs: Tariff[];
+  currency: string; // Symbol shown next to amounts
+  onChange: (tariffs: Tariff[]) => void;
+}
+
+const MONTHS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export const TariffSettings: React.FC<TariffSettingsProps> = ({ tariffs, currency, onChange }) => {
+  const updateTariff = (tariffIdx: number, patch: Partial<Tariff>) => {
+    onChange(tariffs.map((t, i) => i === tariffIdx ? { ...t, ...patch } : t));
+  };
+
+  const updateSeason = (tariffIdx: number, seasonIdx: number, patch: Partial<TariffSeason>) => {
+    const seasons = tariffs[tariffIdx].seasons.map((s, i) => i === seasonIdx ? { ...s, ...patch } : s);
+    updateTariff(tariffIdx, { seasons });
+  };
+
+  const updateTier = (tariffIdx: number, seasonIdx: number, tierIdx: number, patch: Partial<TariffTier>) => {
+    const tiers = tariffs[tariffIdx].seasons[seasonIdx].tiers.map((t, i) => i === tierIdx ? { ...t, ...patch } : t);
+    updateSeason(tariffIdx, seasonIdx, { tiers });
+  };
+
+  const toggleMonth = (tariffIdx: number, seasonIdx: number, month: number) => {
+    const months = tariffs[tariffIdx].seasons[seasonIdx].months;
+    updateSeason(tariffIdx, seasonIdx, {
+      months: months.includes(month) ? months.filter(m => m !== month) : [...months, month].sort((a, b) => a - b)
+    });
+  };
+
+  const addTier = (tariffIdx: number, seasonIdx: number) => {
+    const tiers = tariffs[tariffIdx].seasons[seasonIdx].tiers;
+    const last = tiers[tiers.length - 1];
+    // Close the previous open-ended tier so the new one becomes the top block
+    const closed = tiers.map((t, i) => i === tiers.length - 1 && t.upTo === null
+      ? { ...t, upTo: (tiers[i - 1]?.upTo || 0) + 100 }
+      : t);
+    updateSeason(tariffIdx, seasonIdx, { tiers: [...closed, { upTo: null, rate: last ? last.rate : 150 }] });
+  };
+
+  const removeTier = (tariffIdx: number, seasonIdx: number, tierIdx: number) => {
+    const tiers = tariffs[tariffIdx].seasons[seasonIdx].tiers.filter((_, i) => i !== tierIdx);
+    if (tiers.length > 0) tiers[tiers.length - 1] = { ...tiers[tiers.length - 1], upTo: null };
+    updateSeason(tariffIdx, seasonIdx, { tiers });
+  };
+
+  const updateBands = (tariffIdx: number, seasonIdx: number, update: (bands: TariffTimeBand[]) => TariffTimeBand[]) => {
+    updateSeason(tariffIdx, seasonIdx, { timeBands: update(tariffs[tariffIdx].seasons[seasonIdx].timeBands || []) });
+  };
+
+  const updateBand = (tariffIdx: number, seasonIdx: number, bandIdx: number, patch: Partial<TariffTimeBand>) => {
+    updateBands(tariffIdx, seasonIdx, bands => bands.map((b, i) => i === bandIdx ? { ...b, ...patch } : b));
+  };
+
+  // Each hour belongs to one band, so picking it for a band takes it from the others
+  const toggleHour = (tariffIdx: number, seasonIdx: number, bandIdx: number, hour: number) => {
+    updateBands(tariffIdx, seasonIdx, bands => bands.map((b, i) => {
+      if (i !== bandIdx) return { ...b, hours: b.hours.filter(h => h !== hour) };
+      return { ...b, hours: b.hours.includes(hour) ? b.hours.filter(h => h !== hour) : [...b.hours, hour].sort((x, y) => x - y) };
+    }));
+  };
+
+  // Switching back to tiers drops the bands; the tiers are kept while time of use is on
+  const setTimeOfUse = (tariffIdx: number, seasonIdx: number, enabled: boolean) => {
+    const season = tariffs[tariffIdx].seasons[seasonIdx];
+    updateSeason(tariffIdx, seasonIdx, {
+      timeBands: enabled ? [{ name: 'Off-peak', hours: [], rate: season.tiers[0]?.rate ?? 150 }] : undefined
+    });
+  };
+
+  const addBand = (tariffIdx: number, seasonIdx: number) => {
+    updateBands(tariffIdx, seasonIdx, bands => [...bands, { name: 'New Band', hours: [], rate: bands[bands.length - 1]?.rate ?? 150 }]);
+  };
+
+  const addSeason = (tariffIdx: number) => {
+    updateTariff(tariffIdx, {
+      seasons: [...tariffs[tariffIdx].seasons, { name: 'New Season', months: [], tiers: [{ upTo: null, rate: 150 }] }]
+    });
+  };
+
+  const removeTariff = (tariffIdx: number) => {
+    if (confirm('Remove this tariff? Tenants using it will fall back to the flat rate.')) {
+      onChange(tariffs.filter((_, i) => i !== tariffIdx));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {tariffs.map((tariff, tariffIdx) => (
+        <div key={tariff.id} className="bg-gray-50 rounded-xl p-4 border border-gray-200">
+          <div className="flex items-center justify-between gap-2 mb-4 pb-2 border-b border-gray-200">
+            <div className="flex items-center gap-2 flex-1">
+              <Receipt className="w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={tariff.name}
+                onChange={(e) => updateTariff(tariffIdx, { name: e.target.value })}
+                className="flex-1 font-bold text-gray-800 bg-transparent border border-transparent hover:border-gray-300 hover:bg-white focus:bg-white focus:border-blue-500 focus:outline-none px-1 py-0.5 rounded transition-all"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-xs font-bold text-gray-500 uppercase">
+              Basic charge
+              <input
+                type="number"
+                value={tariff.baseCharge}
+                onChange={(e) => updateTariff(tariffIdx, { baseCharge: Number(e.target.value) })}
+                className="w-24 text-sm text-right font-mono border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+              />
+              {currency}
+            </label>
+            <button
+              onClick={() => removeTariff(tariffIdx)}
+              className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+              title="Remove Tariff"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {tariff.seasons.map((season, seasonIdx) => (
+              <div key={seasonIdx} className="bg-white rounded-lg border border-gray-200 p-3">
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={season.name}
+                    onChange={(e) => updateSeason(tariffIdx, seasonIdx, { name: e.target.value })}
+                    className="flex-1 text-sm font-semibold text-gray-700 border border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none px-1 py-0.5 rounded"
+                  />
+                  {tariff.seasons.length > 1 && (
+                    <button
+                      onClick={() => updateTariff(tariffIdx, { seasons: tariff.seasons.filter((_, i) => i !== seasonIdx) })}
+                      className="text-gray-400 hover:text-red-500"
+                      title="Remove Season"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-1 mb-3">
+                  {MONTHS.map(month => (
+                    <button
+                      key={month}
+                      onClick={() => toggleMonth(tariffIdx, seasonIdx, month)}
+                      className={`w-7 text-[10px] font-bold py-0.5 rounded border transition-colors ${season.months.includes(month) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-400 border-gray-200 hover:border-blue-300'}`}
+                    >
+                      {month}
+                    </button>
+                  ))}
+                </div>
+                {season.months.length === 0 && (
+                  <p className="text-[10px] text-gray-400 italic mb-2">Applies to all other months.</p>
+                )}
+
+                <div className="flex text-[10px] font-bold uppercase mb-2 rounded border border-gray-200 overflow-hidden w-fit">
+                  {([['Tiers', false], ['Time of use', true]] as const).map(([label, enabled]) => (
+                    <button
+                      key={label}
+                      onClick={() => setTimeOfUse(tariffIdx, seasonIdx, enabled)}
+                      className={`px-2 py-0.5 transition-colors ${!!season.timeBands === enabled ? 'bg-blue-600 text-white' : 'bg-white text-gray-400 hover:text-blue-600'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {season.timeBands ? (
+                  <>
+                    {season.timeBands.map((band, bandIdx) => (
+                      <div key={bandIdx} className="border-t border-gray-100 pt-2 mt-2 first:border-t-0 first:mt-0 first:pt-0">
+                        <div className="flex items-center gap-1 mb-1">
+                          <input
+                            type="text"
+                            value={band.name}
+                            onChange={(e) => updateBand(tariffIdx, seasonIdx, bandIdx, { name: e.target.value })}
+                            className="flex-1 min-w-0 text-xs font-semibold text-gray-700 border border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none px-1 py-0.5 rounded"
+                          />
+                          <input
+                            type="number"
+                            step="0.1"
+                            value={band.rate}
+                            onChange={(e) => updateBand(tariffIdx, seasonIdx, bandIdx, { rate: Number(e.target.value) })}
+                            className="w-20 text-xs text-right font-mono border border-gray-300 rounded px-1 py-0.5 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                          />
+                          <span className="text-[10px] text-gray-400 whitespace-nowrap">{currency} / kWh</span>
+                          {season.timeBands!.length > 1 && (
+                            <button
+                              onClick={() => updateBands(tariffIdx, seasonIdx, bands => bands.filter((_, i) => i !== bandIdx))}
+                              className="text-gray-400 hover:text-red-500"
+                              title="Remove Band"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-12 gap-0.5">
+                          {HOURS.map(hour => (
+                            <button
+                              key={hour}
+                              onClick={() => toggleHour(tariffIdx, seasonIdx, bandIdx, hour)}
+                              className={`text-[10px] font-bold py-0.5 rounded border transition-colors ${band.hours.includes(hour) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-400 border-gray-200 hover:border-blue-300'}`}
+                            >
+                              {hour}
+                            </button>
+                          ))}
+                        </div>
+                        {band.hours.length === 0 && (
+                          <p className="text-[10px] text-gray-400 italic mt-1">
+                            {season.timeBands!.findIndex(b => b.hours.length === 0) === bandIdx
+                              ? 'Applies to all other hours.'
+                              : 'Pick the hours this band applies to.'}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => addBand(tariffIdx, seasonIdx)}
+                      className="mt-2 text-xs font-medium text-blue-600 hover:underline flex items-center gap-1"
+                    >
+                      <Plus className="w-3 h-3" /> Add Band
+                    </button>
+                  </>
+                ) : (
+                  <>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-400 uppercase">
+                        <th className="text-left font-semibold pb-1">Up to (kWh)</th>
+                        <th className="text-right font-semibold pb-1">{currency} / kWh</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {season.tiers.map((tier, tierIdx) => (
+                        <tr key={tierIdx}>
+                          <td className="py-0.5">
+                            {tier.upTo === null ? (
+                              <span className="text-gray-400 italic px-1">No limit</span>
+                            ) : (
+                              <input
+                                type="number"
+                                value={tier.upTo}
+                                onChange={(e) => updateTier(tariffIdx, seasonIdx, tierIdx, { upTo: Number(e.target.value) })}
+                                className="w-20 font-mono border border-gray-300 rounded px-1 py-0.5 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                              />
+                            )}
+                          </td>
+                          <td className="py-0.5 text-right">
+                            <input
+                              type="number"
+                              step="0.1"
+                              value={tier.rate}
+                              onChange={(e) => updateTier(tariffIdx, seasonIdx, tierIdx, { rate: Number(e.target.value) })}
+                              className="w-20 text-right font-mono border border-gray-300 rounded px-1 py-0.5 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                            />
+                          </td>
+                          <td className="py-0.5 text-right">
+                            {season.tiers.length > 1 && (
+                              <button
+                                onClick={() => removeTier(tariffIdx, seasonIdx, tierIdx)}
+                                className="text-gray-400 hover:text-red-500"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <button
+                    onClick={() => addTier(tariffIdx, seasonIdx)}
+                    className="mt-2 text-xs font-medium text-blue-600 hover:underline flex items-center gap-1"
+                  >
+                    <Plus className="w-3 h-3" /> Add Tier
+                  </button>
+                  </>
+                )}
+              </div>
+            ))}
+
+            <button
+              onClick={() => addSeason(tariffIdx)}
+              className="border-2 border-dashed border-gray-300 rounded-lg p-3 flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-blue-600 hover:border-blue-400 hover:bg-blue-50 transition-all"
+            >
+              <Plus className="w-4 h-4" /> Add Season
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...tariffs, createEmptyTariff()])}
+        className="w-full border-2 border-dashed border-gray-300 rounded-xl p-4 flex items-center justify-center gap-2 text-gray-400 hover:text-blue-600 hover:border-blue-400 hover:bg-blue-50 transition-all font-semibold"
+      >
+        <Plus className="w-5 h-5" /> Add Tariff
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Tenant, Tariff, TenantCharge } from '../types';
+import { Plus, X } from 'lucide-react';
+
+interface TenantPricingSettingsProps {
+  tenant: Tenant;
+  tariffs: Tariff[];
+  unitPrice: number;
+  currency: string; // Symbol shown next to amounts
+  onChange: (tenant: Tenant) => void;
+}
+
+const NEGOTIATED_RATE = '__negotiated__';
+
+export const TenantPricingSettings: React.FC<TenantPricingSettingsProps> = ({ tenant, tariffs, unitPrice, currency, onChange }) => {
+  const charges = tenant.extraCharges || [];
+  const pricingValue = tenant.rateOverride !== undefined ? NEGOTIATED_RATE : (tenant.tariffId || '');
+
+  const handlePricingChange = (value: string) => {
+    if (value === NEGOTIATED_RATE) {
+      onChange({ ...tenant, tariffId: undefined, rateOverride: unitPrice });
+    } else {
+      onChange({ ...tenant, tariffId: value || undefined, rateOverride: undefined });
+    }
+  };
+
+  const updateCharge = (chargeIdx: number, patch: Partial<TenantCharge>) => {
+    onChange({ ...tenant, extraCharges: charges.map((c, i) => i === chargeIdx ? { ...c, ...patch } : c) });
+  };
+
+  const addCharge = () => {
+    const charge: TenantCharge = { id: `c-${Date.now()}`, label: 'Maintenance fee', type: 'fixed', value: 0 };
+    onChange({ ...tenant, extraCharges: [...charges, charge] });
+  };
+
+  const removeCharge = (chargeIdx: number) => {
+    onChange({ ...tenant, extraCharges: charges.filter((_, i) => i !== chargeIdx) });
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      <div className="flex items-center gap-2">
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Pricing</p>
+        <select
+          value={pricingValue}
+          onChange={(e) => handlePricingChange(e.target.value)}
+          className="flex-1 text-sm bg-white border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+        >
+          <option value="">Flat rate ({currency} {unitPrice.toLocaleString()} / kWh)</option>
+          <option value={NEGOTIATED_RATE}>Negotiated rate...</option>
+          {tariffs.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        {tenant.rateOverride !== undefined && (
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              value={tenant.rateOverride}
+              onChange={(e) => onChange({ ...tenant, rateOverride: Number(e.target.value) })}
+              className="w-20 text-sm text-right font-mono border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+            />
+            <span className="text-xs text-gray-500 font-bold">{currency}</span>
+          </div>
+        )}
+      </div>
+
+      {charges.length > 0 && (
+        <div className="space-y-1">
+          {charges.map((charge, chargeIdx) => (
+            <div key={charge.id} className="flex items-center gap-1">
+              <input
+                type="text"
+                value={charge.label}
+                onChange={(e) => updateCharge(chargeIdx, { label: e.target.value })}
+                className="flex-1 min-w-0 text-xs border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+              />
+              <input
+                type="number"
+                value={charge.value}
+                onChange={(e) => updateCharge(chargeIdx, { value: Number(e.target.value) })}
+                className="w-20 text-xs text-right font-mono border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                title={charge.type === 'percent' ? 'Use a negative value for a discount' : undefined}
+              />
+              <select
+                value={charge.type}
+                onChange={(e) => updateCharge(chargeIdx, { type: e.target.value as TenantCharge['type'] })}
+                className="text-xs bg-white border border-gray-300 rounded px-1 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+              >
+                <option value="fixed">{currency}</option>
+                <option value="percent">%</option>
+              </select>
+              <button
+                onClick={() => removeCharge(chargeIdx)}
+                className="text-gray-400 hover:text-red-500"
+                title="Remove Charge"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={addCharge}
+        className="text-xs font-medium text-blue-600 hover:underline flex items-center gap-1"
+      >
+        <Plus className="w-3 h-3" /> Add fee or discount
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { MeterHistoryEntry } from '../types';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { getUsageDelta } from '../services/historyService';
+
+interface UsageTrendChartProps {
+  history: MeterHistoryEntry[];
+  currentUsage: number;
+  currentLabel?: string;
+  maxBars?: number;
+  height?: number;
+}
+
+// Simple SVG bar chart: past periods in grey, the current period in blue
+export const UsageTrendChart: React.FC<UsageTrendChartProps> = ({
+  history,
+  currentUsage,
+  currentLabel = 'Now',
+  maxBars = 12,
+  height = 96
+}) => {
+  const bars = [
+    ...history.slice(-(maxBars - 1)).map(h => ({ label: h.periodName, value: h.result.usage, isCurrent: false })),
+    { label: currentLabel, value: currentUsage, isCurrent: true }
+  ];
+
+  const maxValue = Math.max(...bars.map(b => b.value), 1);
+  const barWidth = 100 / bars.length;
+  const chartHeight = height - 16; // leave room for labels
+
+  return (
+    <svg viewBox={`0 0 100 ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }} role="img" aria-label="Monthly usage trend">
+      {bars.map((bar, i) => {
+        const barHeight = Math.max((bar.value / maxValue) * (chartHeight - 10), 1);
+        const x = i * barWidth + barWidth * 0.15;
+        const y = chartHeight - barHeight;
+        return (
+          <g key={i}>
+            <title>{`${bar.label}: ${bar.value.toLocaleString()} kWh`}</title>
+            <rect
+              x={x}
+              y={y}
+              width={barWidth * 0.7}
+              height={barHeight}
+              rx={0.8}
+              className={bar.isCurrent ? 'fill-blue-500' : 'fill-gray-300'}
+            />
+            <text
+              x={x + barWidth * 0.35}
+              y={height - 4}
+              textAnchor="middle"
+              className="fill-gray-400"
+              style={{ fontSize: 3.5 }}
+            >
+              {bar.label.length > 7 ? bar.label.slice(-5) : bar.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+interface UsageDeltaBadgeProps {
+  currentUsage: number;
+  previousUsage: number;
+  className?: string;
+}
+
+export const UsageDeltaBadge: React.FC<UsageDeltaBadgeProps> = ({ currentUsage, previousUsage, className = '' }) => {
+  const { diff, percent } = getUsageDelta(currentUsage, previousUsage);
+  const Icon = diff > 0 ? TrendingUp : diff < 0 ? TrendingDown : Minus;
+  const color = diff > 0 ? 'text-red-600 bg-red-50 border-red-200' : diff < 0 ? 'text-green-600 bg-green-50 border-green-200' : 'text-gray-500 bg-gray-50 border-gray-200';
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs font-bold px-2 py-0.5 rounded border ${color} ${className}`}>
+      <Icon className="w-3 h-3" />
+      {diff > 0 ? '+' : ''}{diff.toLocaleString()} kWh
+      {percent !== null && <span className="font-medium opacity-80">({diff > 0 ? '+' : ''}{percent}%)</span>}
+    </span>
+  );
+};
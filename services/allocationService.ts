@@ -0,0 +1,107 @@
+import { AllocationMethod, AnalysisItem, BuildingConfig, Reconciliation, SharedAllocationLine, Tenant } from "../types";
+import { calculateNetUsage } from "./meterService";
+
+// Building-level meters (master + shared) are assigned to this pseudo tenant
+export const BUILDING_TENANT_ID = '__building__';
+
+export const DEFAULT_BUILDING: BuildingConfig = { masterMeter: '', sharedMeters: [] };
+
+export const ALLOCATION_METHOD_LABELS: Record<AllocationMethod, string> = {
+  area: 'Floor area',
+  headcount: 'Headcount',
+  usage: 'Proportional usage',
+  equal: 'Equal split'
+};
+
+// Appears in the tenant dropdown so readings can be assigned to building meters
+export const getBuildingTenant = (config: BuildingConfig): Tenant | null => {
+  const meters = [
+    ...(config.masterMeter ? [config.masterMeter] : []),
+    ...config.sharedMeters.map(m => m.name)
+  ];
+  return meters.length > 0
+    ? { id: BUILDING_TENANT_ID, name: 'Building (Shared)', meters: meters.map(name => ({ name })) }
+    : null;
+};
+
+// Sum of readings assigned to a building meter, or null when it was not read
+const getBuildingMeterUsage = (items: AnalysisItem[], meterName: string): number | null => {
+  const matches = items.filter(i =>
+    i.result && i.assignment.tenantId === BUILDING_TENANT_ID && i.assignment.meterName === meterName
+  );
+  if (matches.length === 0) return null;
+  return matches.reduce((acc, i) => acc + i.result!.usage, 0);
+};
+
+// Net of sub-meters, so nested meters are not counted twice
+const getTenantUsage = (items: AnalysisItem[], tenant: Tenant) =>
+  Object.values(calculateNetUsage(tenant, items)).reduce((acc, u) => acc + u, 0);
+
+const getWeight = (method: AllocationMethod, tenant: Tenant, items: AnalysisItem[]) => {
+  switch (method) {
+    case 'area': return tenant.floorArea || 0;
+    case 'headcount': return tenant.headcount || 0;
+    case 'usage': return getTenantUsage(items, tenant);
+    default: return 1;
+  }
+};
+
+// Splits every shared meter that has a reading among its participating tenants.
+// `items` should only contain readings that are ready for invoicing.
+export const calculateAllocations = (
+  config: BuildingConfig,
+  tenants: Tenant[],
+  items: AnalysisItem[]
+): Record<string, Omit<SharedAllocationLine, 'cost'>[]> => {
+  const allocations: Record<string, Omit<SharedAllocationLine, 'cost'>[]> = {};
+
+  config.sharedMeters.forEach(meter => {
+    const usage = getBuildingMeterUsage(items, meter.name);
+    if (usage === null || usage <= 0) return;
+
+    const participants = meter.tenantIds.length > 0
+      ? tenants.filter(t => meter.tenantIds.includes(t.id))
+      : tenants;
+    if (participants.length === 0) return;
+
+    let weights = participants.map(t => getWeight(meter.method, t, items));
+    let total = weights.reduce((a, b) => a + b, 0);
+    // Missing area/headcount data: fall back to an equal split rather than dropping the usage
+    if (total <= 0) {
+      weights = participants.map(() => 1);
+      total = participants.length;
+    }
+
+    participants.forEach((tenant, idx) => {
+      const share = weights[idx] / total;
+      if (share <= 0) return;
+      (allocations[tenant.id] || (allocations[tenant.id] = [])).push({
+        meterName: meter.name,
+        method: meter.method,
+        share,
+        usage: parseFloat((usage * share).toFixed(2))
+      });
+    });
+  });
+
+  return allocations;
+};
+
+// Compares the master meter with everything measured below it
+export const reconcile = (config: BuildingConfig, tenants: Tenant[], items: AnalysisItem[]): Reconciliation | null => {
+  if (!config.masterMeter) return null;
+  const masterUsage = getBuildingMeterUsage(items, config.masterMeter);
+  if (masterUsage === null) return null;
+
+  const tenantUsage = tenants.reduce((acc, t) => acc + getTenantUsage(items, t), 0);
+  const sharedUsage = config.sharedMeters.reduce((acc, m) => acc + (getBuildingMeterUsage(items, m.name) || 0), 0);
+  const subMeterUsage = parseFloat((tenantUsage + sharedUsage).toFixed(2));
+  const loss = parseFloat((masterUsage - subMeterUsage).toFixed(2));
+
+  return {
+    masterUsage,
+    subMeterUsage,
+    loss,
+    lossPercent: masterUsage > 0 ? parseFloat(((loss / masterUsage) * 100).toFixed(1)) : 0
+  };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { BillingRules } from '../types';
+import { DEFAULT_BILLING_RULES, roundAmount, roundLine } from './billingRulesService';
+
+const rules = (overrides: Partial<BillingRules>): BillingRules => ({ ...DEFAULT_BILLING_RULES, ...overrides });
+
+describe('roundAmount', () => {
+  it('rounds down to the won by default', () => {
+    expect(roundAmount(1234.99, DEFAULT_BILLING_RULES)).toBe(1234);
+  });
+
+  it('follows the rounding mode and unit', () => {
+    expect(roundAmount(1235, rules({ rounding: 'round', roundingUnit: 10 }))).toBe(1240);
+    expect(roundAmount(1234, rules({ rounding: 'round', roundingUnit: 10 }))).toBe(1230);
+    expect(roundAmount(1231, rules({ rounding: 'ceil', roundingUnit: 10 }))).toBe(1240);
+    expect(roundAmount(1239, rules({ rounding: 'floor', roundingUnit: 10 }))).toBe(1230);
+  });
+
+  it('ignores float noise before rounding', () => {
+    expect(1500 * 1.1).not.toBe(1650);
+    expect(roundAmount(1500 * 1.1, rules({ rounding: 'ceil' }))).toBe(1650);
+  });
+
+  it('rounds discounts by magnitude', () => {
+    expect(roundAmount(-1234.5, DEFAULT_BILLING_RULES)).toBe(-1234);
+    expect(roundAmount(-1234.5, rules({ rounding: 'ceil' }))).toBe(-1235);
+    expect(roundAmount(-0.4, DEFAULT_BILLING_RULES)).toBe(0);
+  });
+});
+
+describe('roundLine', () => {
+  it('rounds every line when rules apply per line', () => {
+    expect(roundLine(42919.999, DEFAULT_BILLING_RULES)).toBe(42919);
+  });
+
+  it('keeps cents when only the total is rounded', () => {
+    expect(roundLine(42919.999, rules({ roundingScope: 'total' }))).toBe(42920);
+    expect(roundLine(123.456, rules({ roundingScope: 'total' }))).toBe(123.46);
+  });
+});
@@ -0,0 +1,72 @@
+import { BillingRules, RoundingMode } from "../types";
+
+// Korean default: 10% VAT, every line rounded down to the won
+export const DEFAULT_BILLING_RULES: BillingRules = {
+  vatRate: 10,
+  rounding: 'floor',
+  roundingScope: 'line',
+  roundingUnit: 1,
+  currency: 'KRW',
+  locale: 'ko-KR'
+};
+
+export const ROUNDING_MODE_LABELS: Record<RoundingMode, string> = {
+  floor: 'Round down',
+  round: 'Round half up',
+  ceil: 'Round up'
+};
+
+export const CURRENCIES = ['KRW', 'USD', 'EUR', 'JPY', 'CNY'];
+export const LOCALES = ['ko-KR', 'en-US', 'en-GB', 'ja-JP', 'zh-CN', 'de-DE'];
+
+const ROUNDERS: Record<RoundingMode, (x: number) => number> = {
+  floor: Math.floor,
+  round: Math.round,
+  ceil: Math.ceil
+};
+
+// Absorbs float noise such as 1500 * 1.1 = 1650.0000000000002 before rounding
+const clean = (x: number) => parseFloat(x.toFixed(6));
+
+// Rounds to the configured unit; negative amounts (discounts) round by magnitude
+export const roundAmount = (amount: number, rules: BillingRules): number => {
+  const round = ROUNDERS[rules.rounding] || Math.floor;
+  const units = clean(Math.abs(amount) / rules.roundingUnit);
+  return Math.sign(amount) * round(units) * rules.roundingUnit || 0;
+};
+
+// Charge lines are only rounded when rules apply per line; otherwise they keep cents for the total
+export const roundLine = (amount: number, rules: BillingRules): number =>
+  rules.roundingScope === 'line' ? roundAmount(amount, rules) : clean(Math.round(amount * 100) / 100);
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (rules: BillingRules, style: 'currency' | 'decimal'): Intl.NumberFormat => {
+  const key = `${rules.locale}|${rules.currency}|${style}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    try {
+      const currency = new Intl.NumberFormat(rules.locale, { style: 'currency', currency: rules.currency });
+      formatter = style === 'currency' ? currency : new Intl.NumberFormat(rules.locale, {
+        minimumFractionDigits: currency.resolvedOptions().minimumFractionDigits,
+        maximumFractionDigits: currency.resolvedOptions().maximumFractionDigits
+      });
+    } catch (e) {
+      // Unknown locale or currency code in saved settings
+      return getFormatter(DEFAULT_BILLING_RULES, style);
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+// "₩1,500" / "$1,500.00"
+export const formatMoney = (amount: number, rules: BillingRules): string =>
+  getFormatter(rules, 'currency').format(amount);
+
+// Same digits without the symbol, for table columns whose header names the currency
+export const formatAmount = (amount: number, rules: BillingRules): string =>
+  getFormatter(rules, 'decimal').format(amount);
+
+export const getCurrencySymbol = (rules: BillingRules): string =>
+  getFormatter(rules, 'currency').formatToParts(0).find(p => p.type === 'currency')?.value || rules.currency;
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BillingPeriod, Tenant } from '../types';
+import { getBillingWindow, isValidWindow } from './billingWindowService';
+
+const period = (name: string, overrides: Partial<BillingPeriod> = {}): BillingPeriod =>
+  ({ id: name, name, status: 'archived', createdAt: new Date(2024, 2, 3).getTime(), updatedAt: 0, ...overrides });
+
+const tenant = (billingDay?: number): Tenant => ({ id: 't', name: 'T', meters: [], billingDay });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getBillingWindow', () => {
+  it('uses the run window for calendar-month tenants', () => {
+    const window = { start: '2024-02-01', end: '2024-03-01' };
+    expect(getBillingWindow(period('2024-02', { window }), tenant())).toEqual(window);
+    expect(getBillingWindow(period('2024-02'), tenant())).toBeUndefined();
+  });
+
+  it('ends a lease cycle in the month of the run window', () => {
+    const window = { start: '2024-02-01', end: '2024-03-01' };
+    expect(getBillingWindow(period('March run', { window }), tenant(15))).toEqual({ start: '2024-02-15', end: '2024-03-15' });
+  });
+
+  it('takes the month of a past run from its name, not from today', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 7, 20));
+    expect(getBillingWindow(period('2024-05'), tenant(15))).toEqual({ start: '2024-04-15', end: '2024-05-15' });
+    // Falls back to the month the run was created in
+    expect(getBillingWindow(period('Spring'), tenant(15))).toEqual({ start: '2024-02-15', end: '2024-03-15' });
+  });
+
+  it('starts late-month cycles in February', () => {
+    expect(getBillingWindow(period('2024-03'), tenant(28))).toEqual({ start: '2024-02-28', end: '2024-03-28' });
+    expect(getBillingWindow(period('2023-03'), tenant(28))).toEqual({ start: '2023-02-28', end: '2023-03-28' });
+  });
+});
+
+describe('isValidWindow', () => {
+  it('needs the end after the start', () => {
+    expect(isValidWindow({ start: '2024-05-01', end: '2024-06-01' })).toBe(true);
+    expect(isValidWindow({ start: '2024-06-01', end: '2024-05-01' })).toBe(false);
+  });
+});
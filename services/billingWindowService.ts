@@ -0,0 +1,49 @@
+import { BillingPeriod, BillingWindow, Tenant } from "../types";
+import { parseReadingDate, toIsoDate } from "./dateService";
+
+// Cycle from `day` of the previous month to `day` of the month the cycle ends in.
+// Days past 28 are clamped so short months still get a reading date.
+const getCycleWindow = (day: number, endYear: number, endMonth: number): BillingWindow => {
+  const clamp = (y: number, m: number) => Math.min(day, new Date(y, m + 1, 0).getDate());
+  const start = new Date(endYear, endMonth - 1, 1);
+  start.setDate(clamp(start.getFullYear(), start.getMonth()));
+  return {
+    start: toIsoDate(start),
+    end: toIsoDate(new Date(endYear, endMonth, clamp(endYear, endMonth)))
+  };
+};
+
+// Month a run bills: the month its window ends in, else the "YYYY-MM" in its name, else the month it was created
+const getPeriodMonth = (period: BillingPeriod): { year: number; month: number } => {
+  const windowEnd = period.window ? parseReadingDate(period.window.end) : null;
+  if (windowEnd !== null) {
+    const end = new Date(windowEnd);
+    return { year: end.getFullYear(), month: end.getMonth() };
+  }
+  const named = period.name.match(/^(\d{4})-(\d{1,2})\b/);
+  if (named && Number(named[2]) >= 1 && Number(named[2]) <= 12) {
+    return { year: Number(named[1]), month: Number(named[2]) - 1 };
+  }
+  const created = new Date(period.createdAt);
+  return { year: created.getFullYear(), month: created.getMonth() };
+};
+
+// Window to bill for a tenant in a run. A tenant's lease cycle day wins; the cycle ends on that day
+// of the run's month, so reopening a past run gives the same window as when it was billed.
+export const getBillingWindow = (period?: BillingPeriod, tenant?: Tenant): BillingWindow | undefined => {
+  if (!period) return undefined;
+  const day = tenant?.billingDay;
+  if (day && day > 1) {
+    const { year, month } = getPeriodMonth(period);
+    return getCycleWindow(day, year, month);
+  }
+  return period.window;
+};
+
+export const isValidWindow = (window: BillingWindow) => {
+  const start = parseReadingDate(window.start);
+  const end = parseReadingDate(window.end);
+  return start !== null && end !== null && start < end;
+};
+
+export const formatWindow = (window: BillingWindow) => `${window.start} → ${window.end}`;
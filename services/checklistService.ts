@@ -0,0 +1,51 @@
+import { AnalysisItem, InvoiceChecklist, MeterCheck, MeterCheckStatus, Tenant } from "../types";
+import { needsReview } from "./validationService";
+
+export const hashFile = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const isAssigned = (item: AnalysisItem) => !!item.assignment.tenantId && !!item.assignment.meterName;
+
+const getMeterStatus = (assigned: AnalysisItem[]): MeterCheckStatus => {
+  if (assigned.length === 0) return 'missing';
+  if (assigned.length > 1) return 'duplicate';
+  const [item] = assigned;
+  return item.status === 'success' && item.result && !needsReview(item.result) ? 'read' : 'pending';
+};
+
+// Every configured meter with the items assigned to it, plus uploads that cannot be billed as they are
+export const buildChecklist = (tenants: Tenant[], items: AnalysisItem[]): InvoiceChecklist => {
+  const meters: MeterCheck[] = tenants.flatMap(tenant => tenant.meters.map(meter => {
+    const assigned = items.filter(i => i.assignment.tenantId === tenant.id && i.assignment.meterName === meter.name);
+    return {
+      tenantId: tenant.id,
+      tenantName: tenant.name,
+      meterName: meter.name,
+      status: getMeterStatus(assigned),
+      itemIds: assigned.map(i => i.id)
+    };
+  }));
+
+  const unassignedIds = items.filter(i => !isAssigned(i)).map(i => i.id);
+
+  const byHash = new Map<string, string[]>();
+  items.forEach(item => {
+    if (!item.contentHash) return;
+    byHash.set(item.contentHash, [...(byHash.get(item.contentHash) || []), item.id]);
+  });
+  const duplicateImages = [...byHash.values()].filter(ids => ids.length > 1);
+
+  const openMeters = meters.filter(m => m.status !== 'read');
+  const issueCount = openMeters.length + unassignedIds.length + duplicateImages.length;
+
+  // Stable keys, so an override survives issues being resolved but not new ones appearing
+  const issueKeys = [
+    ...openMeters.map(m => `${m.status}:${m.tenantId}:${m.meterName}`),
+    ...unassignedIds.map(id => `unassigned:${id}`),
+    ...duplicateImages.map(ids => `image:${ids.join(',')}`)
+  ];
+
+  return { meters, unassignedIds, duplicateImages, issueCount, issueKeys };
+};
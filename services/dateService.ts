@@ -0,0 +1,48 @@
+// Reading dates are stored as local ISO timestamps without a zone ("2024-05-01T00:00"),
+// which is also the value format of <input type="datetime-local">.
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toIsoDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+export const toIsoDateTime = (d: Date) => `${toIsoDate(d)}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+// Accepts what meter software and the model tend to produce: "2024-05-01 00:00", "2024.5.1",
+// "2024/05/01 13:30", "2024년 5월 1일" and "24:00" for the end of a day.
+const DATE_PATTERN = /(\d{4})\s*[-./년]\s*(\d{1,2})\s*[-./월]\s*(\d{1,2})(?:\s*일)?(?:[\sT]+(\d{1,2}):(\d{2}))?/;
+
+const parseParts = (date: string): Date | null => {
+  const match = date.match(DATE_PATTERN);
+  if (!match) return null;
+  const [y, m, d, hh, mm] = match.slice(1).map(v => Number(v || 0));
+  // new Date() would silently roll 2024-02-31 into March; only 24:00 may roll over
+  const daysInMonth = new Date(y, m, 0).getDate();
+  if (m < 1 || m > 12 || d < 1 || d > daysInMonth || hh > 24 || mm > 59 || (hh === 24 && mm > 0)) return null;
+  return new Date(y, m - 1, d, hh, mm);
+};
+
+// Lenient parse to epoch milliseconds, or null when the string is not a date
+export const parseReadingDate = (date: string): number | null => {
+  if (!date) return null;
+  if (DATE_PATTERN.test(date)) return parseParts(date.trim())?.getTime() ?? null;
+  const time = new Date(date.trim()).getTime();
+  return isNaN(time) ? null : time;
+};
+
+// Canonical form for storage; unparseable strings are kept so the reviewer can see and fix them
+export const normalizeReadingDate = (date: string): string => {
+  const time = parseReadingDate(date);
+  return time === null ? String(date || '').trim() : toIsoDateTime(new Date(time));
+};
+
+// Display form used everywhere a reading date is shown: "2024-05-01 00:00"
+export const formatReadingDate = (date: string): string => {
+  const time = parseReadingDate(date);
+  return time === null ? (date || '—') : toIsoDateTime(new Date(time)).replace('T', ' ');
+};
+
+export const isSameDay = (a: string, b: string) => {
+  const ta = parseReadingDate(a);
+  const tb = parseReadingDate(b);
+  return ta !== null && tb !== null && new Date(ta).toDateString() === new Date(tb).toDateString();
+};
@@ -0,0 +1,163 @@
+import { BillingRules, InvoiceData } from "../types";
+import { formatReadingDate } from "./dateService";
+
+// Spreadsheet exports for accounting, built from the same invoiceData the invoices render from
+
+type CellValue = string | number | undefined;
+
+interface ExportColumn<T> {
+  header: string;
+  width: number; // Excel character widths
+  value: (row: T) => CellValue;
+  money?: boolean;
+  sum?: boolean; // Added up in the sheet's totals row
+}
+
+// One row per meter reading or shared-meter allocation
+interface MeterRow {
+  invoice: InvoiceData;
+  meterName: string;
+  startDate?: string;
+  startValue?: number;
+  endDate?: string;
+  endValue?: number;
+  multiplier?: number;
+  usage: number; // kWh as read (after the CT multiplier)
+  netUsage: number; // kWh billed
+  cost: number;
+}
+
+const toMeterRows = (invoices: InvoiceData[]): MeterRow[] => invoices.flatMap(invoice => [
+  ...invoice.items.map(item => ({
+    invoice,
+    meterName: item.meterName,
+    startDate: formatReadingDate(item.result.startReading.date),
+    startValue: item.result.startReading.value,
+    endDate: formatReadingDate(item.result.endReading.date),
+    endValue: item.result.endReading.value,
+    multiplier: item.result.multiplier,
+    usage: item.result.usage,
+    netUsage: item.netUsage,
+    cost: item.cost
+  })),
+  ...(invoice.sharedItems || []).map(item => ({
+    invoice,
+    meterName: `${item.meterName} (shared, ${(item.share * 100).toFixed(1)}%)`,
+    usage: item.usage,
+    netUsage: item.usage,
+    cost: item.cost
+  }))
+]);
+
+// Flat rate, or the average per kWh when a tiered tariff was split across meters
+const effectiveRate = (row: MeterRow): number | undefined => {
+  if (row.invoice.unitRate !== undefined) return row.invoice.unitRate;
+  return row.netUsage > 0 ? parseFloat((row.cost / row.netUsage).toFixed(2)) : undefined;
+};
+
+const METER_COLUMNS: ExportColumn<MeterRow>[] = [
+  { header: 'Tenant', width: 24, value: r => r.invoice.tenant.name },
+  { header: 'Business Reg. No.', width: 16, value: r => r.invoice.tenant.registrationNumber },
+  { header: 'Invoice No.', width: 16, value: r => r.invoice.issued?.number },
+  { header: 'Meter', width: 24, value: r => r.meterName },
+  { header: 'Start Date', width: 17, value: r => r.startDate },
+  { header: 'Start Reading', width: 14, value: r => r.startValue },
+  { header: 'End Date', width: 17, value: r => r.endDate },
+  { header: 'End Reading', width: 14, value: r => r.endValue },
+  { header: 'Multiplier', width: 10, value: r => r.multiplier },
+  { header: 'Usage (kWh)', width: 12, value: r => r.usage },
+  { header: 'Net Usage (kWh)', width: 15, value: r => r.netUsage, sum: true },
+  { header: 'Tariff', width: 20, value: r => r.invoice.tariff?.name },
+  { header: 'Rate per kWh', width: 14, value: effectiveRate, money: true },
+  { header: 'Cost', width: 14, value: r => r.cost, money: true, sum: true }
+];
+
+const SUMMARY_COLUMNS: ExportColumn<InvoiceData>[] = [
+  { header: 'Tenant', width: 24, value: i => i.tenant.name },
+  { header: 'Business Reg. No.', width: 16, value: i => i.tenant.registrationNumber },
+  { header: 'Invoice No.', width: 16, value: i => i.issued?.number },
+  { header: 'Issue Date', width: 12, value: i => i.issued?.issueDate },
+  { header: 'Due Date', width: 12, value: i => i.issued?.dueDate },
+  { header: 'Meters', width: 8, value: i => i.items.length + (i.sharedItems?.length || 0) },
+  { header: 'Usage (kWh)', width: 12, value: i => i.totalUsage, sum: true },
+  { header: 'Supply Value', width: 14, value: i => i.totals.supply, money: true, sum: true },
+  { header: 'VAT Rate (%)', width: 12, value: i => i.totals.vatRate },
+  { header: 'VAT', width: 14, value: i => i.totals.vat, money: true, sum: true },
+  { header: 'Total', width: 14, value: i => i.totals.total, money: true, sum: true }
+];
+
+const headerOf = <T,>(column: ExportColumn<T>, rules: BillingRules) =>
+  column.money ? `${column.header} (${rules.currency})` : column.header;
+
+// RFC 4180 quoting; a leading BOM makes Excel read Hangul as UTF-8
+const toCsv = <T,>(columns: ExportColumn<T>[], rows: T[], rules: BillingRules): string => {
+  const escape = (value: CellValue) => {
+    let text = value === undefined ? '' : String(value);
+    // Names starting with = + - @ would otherwise run as spreadsheet formulas
+    if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [
+    columns.map(c => escape(headerOf(c, rules))).join(','),
+    ...rows.map(row => columns.map(c => escape(c.value(row))).join(','))
+  ];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+export const createReadingsCsv = (invoices: InvoiceData[], rules: BillingRules): Blob =>
+  new Blob([toCsv(METER_COLUMNS, toMeterRows(invoices), rules)], { type: 'text/csv;charset=utf-8' });
+
+// Excel number format with the currency's decimal places, e.g. "#,##0" for KRW
+const getMoneyFormat = (rules: BillingRules): string => {
+  let digits = 0;
+  try {
+    digits = new Intl.NumberFormat(rules.locale, { style: 'currency', currency: rules.currency }).resolvedOptions().maximumFractionDigits ?? 0;
+  } catch (e) {
+    // Unknown currency code; whole units
+  }
+  return digits > 0 ? `#,##0.${'0'.repeat(digits)}` : '#,##0';
+};
+
+export const createInvoiceWorkbook = async (invoices: InvoiceData[], rules: BillingRules): Promise<Blob> => {
+  // Loaded lazily; only the export needs the workbook writer
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const moneyFormat = getMoneyFormat(rules);
+
+  const addSheet = <T,>(name: string, columns: ExportColumn<T>[], rows: T[]) => {
+    const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+    sheet.columns = columns.map((c, i) => ({
+      header: headerOf(c, rules),
+      key: String(i),
+      width: c.width,
+      ...(c.money ? { style: { numFmt: moneyFormat } } : {})
+    }));
+    rows.forEach(row => sheet.addRow(columns.map(c => c.value(row) ?? null)));
+    sheet.getRow(1).font = { bold: true };
+
+    if (columns.some(c => c.sum)) {
+      const totals = sheet.addRow(columns.map((c, i) => i === 0 ? 'Total' : c.sum
+        ? parseFloat(rows.reduce((acc, row) => acc + Number(c.value(row) || 0), 0).toFixed(2))
+        : null));
+      totals.font = { bold: true };
+    }
+  };
+
+  addSheet('Readings', METER_COLUMNS, toMeterRows(invoices));
+  addSheet('Summary', SUMMARY_COLUMNS, invoices);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,38 @@
+import { AnalysisResult, ExtractorId, ExtractorOptions } from "../types";
+import { analyzeMeterImage } from "./geminiService";
+import { analyzeMeterImageLocally } from "./localOcrService";
+import { analyzeMeterImageMock } from "./mockExtractor";
+
+// Every backend turns a screenshot into start/end readings
+export interface MeterExtractor {
+  id: ExtractorId;
+  label: string;
+  description: string;
+  extract: (file: File, options?: ExtractorOptions) => Promise<AnalysisResult>;
+}
+
+export const EXTRACTORS: MeterExtractor[] = [
+  {
+    id: 'gemini',
+    label: 'Gemini Vision (online)',
+    description: 'Most accurate. Requires internet and an API key.',
+    extract: analyzeMeterImage
+  },
+  {
+    id: 'local-ocr',
+    label: 'Local OCR (offline)',
+    description: 'Tesseract running in the browser with Korean and English text. Its files are served by this app, so no internet is needed.',
+    extract: analyzeMeterImageLocally
+  },
+  {
+    id: 'mock',
+    label: 'Mock (testing)',
+    description: 'Returns deterministic fake readings without reading the image.',
+    extract: analyzeMeterImageMock
+  }
+];
+
+export const DEFAULT_EXTRACTOR_ID: ExtractorId = 'gemini';
+
+export const getExtractor = (id: ExtractorId): MeterExtractor =>
+  EXTRACTORS.find(e => e.id === id) || EXTRACTORS[0];
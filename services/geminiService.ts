@@ -1,6 +1,10 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, GeminiResponseSchema } from "../types";
+import { ApiError, ContentListUnion, GenerateContentConfig, GoogleGenAI, Type } from "@google/genai";
+import { AnalysisResult, BoundingBox, ExtractorOptions, GeminiResponseSchema, ModelPolicy } from "../types";
+import { createAnalysisResult } from "./validationService";
+import { normalizeRows, pickBoundaryRows } from "./readingTableService";
+import { normalizeReadingDate } from "./dateService";
+import { fromGeminiBox, uncropBox } from "./regionService";
 
 // Helper function to safely retrieve API Key
 const getApiKey = (): string => {
@@ -25,7 +29,8 @@ const getApiKey = (): string => {
 
 // Optimization: Compress and Resize Image
 // Reduced MAX_SIZE to 800px to further lower token usage and improve success rate
-const compressImage = async (file: File): Promise<string> => {
+// With a crop, only that part of the image is sent (so it gets the full resolution budget)
+const compressImage = async (file: File, crop?: BoundingBox): Promise<string> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     const url = URL.createObjectURL(file);
@@ -33,7 +38,12 @@ const compressImage = async (file: File): Promise<string> => {
     
     img.onload = () => {
       const canvas = document.createElement('canvas');
-      let { width, height } = img;
+      const sx = crop ? Math.round(crop.x * img.width) : 0;
+      const sy = crop ? Math.round(crop.y * img.height) : 0;
+      const sw = crop ? Math.max(1, Math.round(crop.width * img.width)) : img.width;
+      const sh = crop ? Math.max(1, Math.round(crop.height * img.height)) : img.height;
+      let width = sw;
+      let height = sh;
       
       // Increased to 1536px to improve OCR accuracy for dense tables and small text
       const MAX_SIZE = 1536;
@@ -61,7 +71,7 @@ const compressImage = async (file: File): Promise<string> => {
       // Use high quality image smoothing
       ctx.imageSmoothingEnabled = true;
       ctx.imageSmoothingQuality = 'high';
-      ctx.drawImage(img, 0, 0, width, height);
+      ctx.drawImage(img, sx, sy, sw, sh, 0, 0, width, height);
       
       // 0.8 quality for better detail retention
       const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
@@ -116,56 +126,133 @@ export const createThumbnail = async (file: File): Promise<string> => {
 
 const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// Fallback Strategy: List of models to try in order
-// If the experimental 3.0 model is busy (429), we fall back to 2.0 or Stable Flash
-const MODELS_TO_TRY = [
-  'gemini-2.0-flash-exp',   // Primary: Excellent vision capabilities
-  'gemini-1.5-pro',         // Secondary: High reasoning
-  'gemini-1.5-flash'        // Tertiary: Fast & stable
-];
+export const DEFAULT_MODEL_POLICY: ModelPolicy = {
+  models: [
+    { name: 'gemini-2.5-flash', timeoutMs: 60000 },
+    { name: 'gemini-2.5-flash-lite', timeoutMs: 45000 },
+    { name: 'gemini-2.0-flash', timeoutMs: 45000 }
+  ],
+  maxRetries: 2,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000
+};
+
+class TimeoutError extends Error {}
+
+// A failed extraction with the HTTP status behind it, so the queue can tell a busy API from a bad image.
+// Timeouts are reported as 408 and requests that got no response at all (network drops) as 0.
+export class AnalysisError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+  }
+}
+
+// The SDK's ApiError carries the HTTP status; its message is the JSON error body
+// ({ error: { code, message, status, details } }) as the API returned it
+interface ApiErrorBody {
+  code?: number;
+  message?: string;
+  status?: string;
+  details?: { '@type'?: string; retryDelay?: string; reason?: string }[];
+}
+
+const getErrorBody = (error: unknown): ApiErrorBody | undefined => {
+  if (!(error instanceof ApiError)) return undefined;
+  try {
+    return JSON.parse(error.message)?.error;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const getErrorStatus = (error: unknown): number | undefined => {
+  if (error instanceof ApiError) return error.status;
+  if (error instanceof TimeoutError) return 408;
+  // fetch() rejects with a TypeError when no response arrives
+  if (error instanceof TypeError) return 0;
+  return undefined;
+};
 
-const generateContentWithFallback = async (contents: any, config: any) => {
+// Quota errors say when to come back in a google.rpc.RetryInfo detail, e.g. { retryDelay: "37s" }
+const getRetryAfterMs = (error: unknown): number | undefined => {
+  const retryInfo = getErrorBody(error)?.details?.find(d => d['@type']?.endsWith('google.rpc.RetryInfo'));
+  const seconds = parseFloat(retryInfo?.retryDelay || '');
+  return isNaN(seconds) ? undefined : Math.ceil(seconds * 1000);
+};
+
+const withTimeout = async <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, external?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  external?.addEventListener('abort', abort);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(`Timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    external?.removeEventListener('abort', abort);
+  }
+};
+
+const generateContentWithFallback = async (
+  contents: ContentListUnion,
+  config: GenerateContentConfig,
+  policy: ModelPolicy,
+  { signal, beforeRequest }: Pick<ExtractorOptions, 'signal' | 'beforeRequest'> = {}
+) => {
   const apiKey = getApiKey();
-  if (!apiKey) throw new Error("API Key is missing");
+  if (!apiKey) throw new Error("API Key is missing. Check your API Key configuration.");
   const ai = new GoogleGenAI({ apiKey });
 
+  const models = policy.models.filter(m => m.name.trim());
+  if (models.length === 0) throw new Error("No Gemini models configured.");
+
   let lastError: any;
 
-  for (const model of MODELS_TO_TRY) {
-    try {
-      const response = await ai.models.generateContent({
-        model,
-        contents,
-        config
-      });
-      return response;
-    } catch (error: any) {
-      console.warn(`Model ${model} failed:`, error.message);
-      lastError = error;
-
-      // Check for specific errors that warrant trying another model
-      const msg = error.message?.toLowerCase() || '';
-      
-      // 429: Quota Exceeded / Resource Exhausted / Busy
-      // 503: Service Unavailable / Overloaded
-      // 404: Model not found (experimental models sometimes disappear)
-      const shouldRetry = msg.includes('429') || 
-                          msg.includes('quota') || 
-                          msg.includes('exhausted') || 
-                          msg.includes('busy') ||
-                          msg.includes('503') || 
-                          msg.includes('overloaded') ||
-                          msg.includes('404') || 
-                          msg.includes('not found');
-
-      if (shouldRetry) {
-         // Wait briefly before switching models
-         await wait(500); 
-         continue; // Try next model in loop
-      }
+  for (const { name: model, timeoutMs } of models) {
+    for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+      if (signal?.aborted) throw new Error("Analysis cancelled.");
+      // Every attempt is a request of its own and counts against the queue's budget
+      await beforeRequest?.();
+      try {
+        const response = await withTimeout(
+          abortSignal => ai.models.generateContent({ model, contents, config: { ...config, abortSignal } }),
+          timeoutMs,
+          signal
+        );
+        return { response, model };
+      } catch (error: any) {
+        console.warn(`Model ${model} failed (attempt ${attempt + 1}):`, error.message);
+        lastError = error;
+        if (signal?.aborted) throw new Error("Analysis cancelled.");
 
-      // If it's a 400 (Bad Request) or 401 (Auth), retrying other models usually won't help
-      throw error;
+        // A slow model is unlikely to get faster on retry
+        if (error instanceof TimeoutError) break;
+
+        const status = getErrorStatus(error);
+
+        // 404: model retired or renamed, move on
+        if (status === 404) break;
+
+        // 429: quota / rate limit, 503: overloaded. Back off and retry the same model.
+        if (status === 429 || status === 503) {
+          if (attempt === policy.maxRetries) break;
+          const retryAfter = getRetryAfterMs(error);
+          // Quota resets far in the future: better served by the next model
+          if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) break;
+          const backoff = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+          await wait(retryAfter ?? backoff + Math.random() * 250);
+          continue;
+        }
+
+        // 400 (Bad Request) or 401/403 (Auth): other models won't help
+        throw error;
+      }
     }
   }
   
@@ -173,8 +260,8 @@ const generateContentWithFallback = async (contents: any, config: any) => {
   throw lastError || new Error("All AI models are currently busy. Please try again later.");
 };
 
-export const analyzeMeterImage = async (file: File): Promise<AnalysisResult> => {
-  const base64Data = await compressImage(file);
+export const analyzeMeterImage = async (file: File, options: ExtractorOptions = {}): Promise<AnalysisResult> => {
+  const base64Data = await compressImage(file, options.crop);
   
   const imagePart = {
     inlineData: {
@@ -183,30 +270,44 @@ export const analyzeMeterImage = async (file: File): Promise<AnalysisResult> =>
     },
   };
 
+  const { window } = options;
+  const target = window
+    ? `the billing window from ${window.start} 00:00 to ${window.end} 00:00`
+    : "the most recent complete month";
+  const boundarySteps = window
+    ? `2. Locate the row for the START of the window: ${window.start} at 00:00 (or ${window.start} minus one day at 24:00).
+    3. Locate the row for the END of the window: ${window.end} at 00:00 (or ${window.end} minus one day at 24:00).
+       If a row is missing, use the closest row and give it a low date confidence.`
+    : `2. Locate the row for the START of the month (e.g., 1st day at 00:00).
+    3. Locate the row for the END of the month (e.g., 1st day of NEXT month at 00:00 OR last day of CURRENT month at 24:00).`;
+
   const prompt = `
     Analyze this utility meter reading log (e.g., 3D Utility or similar software interface).
-    Your task is to extract the most recent complete month's usage data with EXTREME PRECISION.
+    Your task is to extract the usage data for ${target} with EXTREME PRECISION.
 
     Step-by-Step Instructions:
     1. Identify the table structure. Look for headers like 'Date', 'Time', 'Value', 'Reading', 'Total', 'kWh'.
-    2. Locate the row for the START of the month (e.g., 1st day at 00:00).
-    3. Locate the row for the END of the month (e.g., 1st day of NEXT month at 00:00 OR last day of CURRENT month at 24:00).
+    ${boundarySteps}
     4. Extract the reading values exactly as they appear in the image.
     5. CRITICAL: Pay close attention to decimal points. Do not miss them.
     6. CRITICAL: Distinguish between similar digits (1 vs 7, 0 vs 8, 5 vs 6, 3 vs 8).
     7. If multiple columns exist, find the 'Active Energy' or 'Cumulative' column.
+    8. Also transcribe EVERY row of the table into 'rows' (date and cumulative value), in the order shown.
+    9. Give the bounding boxes of the START and END rows as 'startBox' and 'endBox': [ymin, xmin, ymax, xmax] scaled to 0-1000.
+    10. If the screen names the meter (title bar, selected tree node, header such as 'Meter', 'Name', 'ID' or '계량기'), copy that label exactly into 'meterLabel'. Leave it empty when there is none.
     
     Rules:
-    - Usage = |End Reading - Start Reading|
+    - Usage = End Reading - Start Reading
     - Date Format: "YYYY-MM-DD HH:MM"
     - If the image is blurry, do your best to infer from context (e.g. increasing values).
+    - Report your confidence (0.0 to 1.0) for each extracted value and date. Use a low score when digits or decimals are hard to read.
 
     Return the result in the specified JSON format.
   `;
 
   try {
     // Use the fallback wrapper instead of calling specific model directly
-    const response = await generateContentWithFallback(
+    const { response, model } = await generateContentWithFallback(
       {
         parts: [
           imagePart,
@@ -234,10 +335,35 @@ export const analyzeMeterImage = async (file: File): Promise<AnalysisResult> =>
               },
               required: ['date', 'value'],
             },
+            rows: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  date: { type: Type.STRING },
+                  value: { type: Type.NUMBER },
+                },
+                required: ['date', 'value'],
+              },
+            },
+            startBox: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+            endBox: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+            meterLabel: { type: Type.STRING },
+            confidence: {
+              type: Type.OBJECT,
+              properties: {
+                startValue: { type: Type.NUMBER },
+                endValue: { type: Type.NUMBER },
+                startDate: { type: Type.NUMBER },
+                endDate: { type: Type.NUMBER },
+              },
+            },
           },
           required: ['startReading', 'endReading'],
         }
-      }
+      },
+      options.modelPolicy || DEFAULT_MODEL_POLICY,
+      options
     );
 
     const text = response.text;
@@ -250,39 +376,40 @@ export const analyzeMeterImage = async (file: File): Promise<AnalysisResult> =>
       throw new Error("AI response was not valid JSON.");
     }
     
-    const startVal = Number(data.startReading.value);
-    const endVal = Number(data.endReading.value);
-    const usage = parseFloat(Math.abs(endVal - startVal).toFixed(2));
+    // With the full table we choose the billing rows ourselves instead of trusting the model's pick
+    const rows = normalizeRows(data.rows || []);
+    const boundary = pickBoundaryRows(rows, window);
+    const result = boundary
+      ? createAnalysisResult(boundary.start, boundary.end, data.confidence, rows)
+      : createAnalysisResult(data.startReading, data.endReading, data.confidence, rows);
+
+    // Boxes describe the model's rows; drop them if we billed different ones
+    const boxFor = (reading: { date: string }, billedDate: string, box?: number[]) =>
+      normalizeReadingDate(reading.date) === billedDate ? uncropBox(fromGeminiBox(box), options.crop) : undefined;
+    const regions = {
+      start: boxFor(data.startReading, result.startReading.date, data.startBox),
+      end: boxFor(data.endReading, result.endReading.date, data.endBox)
+    };
 
+    const meterLabel = data.meterLabel?.trim();
     return {
-      startReading: { ...data.startReading, value: startVal },
-      endReading: { ...data.endReading, value: endVal },
-      usage: usage
+      ...result,
+      model,
+      ...(regions.start || regions.end ? { regions } : {}),
+      ...(meterLabel ? { meterLabel } : {})
     };
 
   } catch (error: any) {
     console.error("Analysis Error:", error);
-    
-    let errorMessage = error.message || "Failed to analyze.";
-    
-    // Attempt to unwrap JSON error
-    if (errorMessage.includes('{')) {
-        try {
-            const jsonMatch = errorMessage.match(/\{.*\}/);
-            const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : errorMessage);
-            if (parsed.error?.message) errorMessage = parsed.error.message;
-        } catch(e) {}
-    }
 
-    const lower = errorMessage.toLowerCase();
-    
-    if (lower.includes('api key')) {
-      throw new Error("Check your API Key configuration.");
+    const status = getErrorStatus(error);
+    const body = getErrorBody(error);
+    if (status === 429) {
+      throw new AnalysisError("High traffic: All AI models are busy. Please wait 1 minute.", status);
     }
-    if (lower.includes('quota') || lower.includes('429')) {
-       throw new Error("High traffic: All AI models are busy. Please wait 1 minute.");
+    if (status === 401 || status === 403 || body?.details?.some(d => d.reason === 'API_KEY_INVALID')) {
+      throw new AnalysisError("Check your API Key configuration.", status);
     }
-    
-    throw new Error(errorMessage);
+    throw new AnalysisError(body?.message || error.message || "Failed to analyze.", status);
   }
 };
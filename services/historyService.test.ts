@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { BillingPeriod, StoredAnalysisItem } from '../types';
+import { createAnalysisResult } from './validationService';
+import { buildMeterHistory, getMeterKey, getUsageDelta } from './historyService';
+
+const makePeriod = (id: string, createdAt: number, window?: BillingPeriod['window']): BillingPeriod =>
+  ({ id, name: id, status: 'archived', createdAt, updatedAt: createdAt, ...(window ? { window } : {}) });
+
+const makeItem = (id: string, periodId: string, order: number, end: string, endValue: number): StoredAnalysisItem => ({
+  id,
+  periodId,
+  order,
+  file: new File([], `${id}.png`),
+  status: 'success',
+  result: createAnalysisResult({ date: '2024-01-01 00:00', value: 0 }, { date: end, value: endValue }),
+  assignment: { tenantId: 't-1', meterName: '1F AC' }
+});
+
+const KEY = getMeterKey('t-1', '1f ac');
+
+describe('buildMeterHistory', () => {
+  it('orders periods by their billing window, not by when they were created', () => {
+    // March was entered after April
+    const periods = [
+      makePeriod('april', 1, { start: '2024-04-01', end: '2024-05-01' }),
+      makePeriod('march', 2, { start: '2024-03-01', end: '2024-04-01' }),
+      makePeriod('may', 3, { start: '2024-05-01', end: '2024-06-01' })
+    ];
+    const items = [
+      makeItem('a', 'april', 0, '2024-05-01 00:00', 200),
+      makeItem('m', 'march', 0, '2024-04-01 00:00', 100),
+      makeItem('y', 'may', 0, '2024-06-01 00:00', 300)
+    ];
+
+    expect(buildMeterHistory(periods, items, 'may')[KEY].map(e => e.periodId)).toEqual(['march', 'april']);
+    expect(buildMeterHistory(periods, items, 'april')[KEY].map(e => e.periodId)).toEqual(['march']);
+    expect(buildMeterHistory(periods, items, 'march')[KEY]).toBeUndefined();
+  });
+
+  it('dates periods without a window by their readings', () => {
+    const periods = [makePeriod('april', 1), makePeriod('march', 2), makePeriod('may', 3)];
+    const items = [
+      makeItem('a', 'april', 0, '2024-05-01 00:00', 200),
+      makeItem('m', 'march', 0, '2024-04-01 00:00', 100),
+      makeItem('y', 'may', 0, '2024-06-01 00:00', 300)
+    ];
+    expect(buildMeterHistory(periods, items, 'may')[KEY].map(e => e.periodId)).toEqual(['march', 'april']);
+  });
+
+  it('keeps the last item of a period in list order', () => {
+    const periods = [makePeriod('april', 1), makePeriod('may', 2)];
+    const items = [
+      makeItem('second', 'april', 1, '2024-05-01 00:00', 250),
+      makeItem('first', 'april', 0, '2024-05-01 00:00', 200),
+      makeItem('y', 'may', 0, '2024-06-01 00:00', 300)
+    ];
+    const entries = buildMeterHistory(periods, items, 'may')[KEY];
+    expect(entries).toHaveLength(1);
+    expect(entries[0].result.endReading.value).toBe(250);
+  });
+});
+
+describe('getUsageDelta', () => {
+  it('reports the change and its percentage', () => {
+    expect(getUsageDelta(120, 100)).toEqual({ diff: 20, percent: 20 });
+    expect(getUsageDelta(5, 0)).toEqual({ diff: 5, percent: null });
+  });
+});
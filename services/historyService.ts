@@ -0,0 +1,73 @@
+import { BillingPeriod, MeterHistory, MeterHistoryEntry, StoredAnalysisItem } from "../types";
+import { parseReadingDate } from "./dateService";
+import { listPeriods, loadAllItems } from "./storageService";
+
+// Meters are identified by tenant + meter name (names are compared case-insensitively)
+export const getMeterKey = (tenantId: string, meterName: string) =>
+  `${tenantId}::${meterName.trim().toLowerCase()}`;
+
+// When a period's billing ends: the end of its window, or else its latest end reading
+const getPeriodEnd = (period: BillingPeriod, items: StoredAnalysisItem[]): number | null => {
+  const windowEnd = period.window ? parseReadingDate(period.window.end) : null;
+  if (windowEnd !== null) return windowEnd;
+  const ends = items
+    .filter(item => item.periodId === period.id && item.result)
+    .map(item => parseReadingDate(item.result!.endReading.date))
+    .filter((time): time is number => time !== null);
+  return ends.length > 0 ? Math.max(...ends) : null;
+};
+
+// Builds the per-meter history of all periods billed before the given one,
+// ordered oldest first.
+export const buildMeterHistory = (periods: BillingPeriod[], stored: StoredAnalysisItem[], activePeriodId: string): MeterHistory => {
+  const active = periods.find(p => p.id === activePeriodId);
+  const activeEnd = active ? getPeriodEnd(active, stored) : null;
+  const earlier = new Map<string, { period: BillingPeriod; end: number }>();
+  periods.forEach(p => {
+    if (p.id === activePeriodId) return;
+    const end = getPeriodEnd(p, stored);
+    // Periods with nothing to date them have no readings to offer either
+    if (end !== null && (activeEnd === null || end < activeEnd)) earlier.set(p.id, { period: p, end });
+  });
+
+  const history: MeterHistory = {};
+  // Items in list order, so a later item in the same period wins
+  [...stored].sort((a, b) => a.order - b.order).forEach(item => {
+    const period = earlier.get(item.periodId)?.period;
+    if (!period || item.status !== 'success' || !item.result) return;
+    if (!item.assignment.tenantId || !item.assignment.meterName) return;
+
+    const key = getMeterKey(item.assignment.tenantId, item.assignment.meterName);
+    const entries = history[key] || (history[key] = []);
+    const entry: MeterHistoryEntry = { periodId: period.id, periodName: period.name, result: item.result };
+
+    // One reading per meter per period
+    const existingIdx = entries.findIndex(e => e.periodId === period.id);
+    if (existingIdx >= 0) entries[existingIdx] = entry;
+    else entries.push(entry);
+  });
+
+  const periodEnd = (id: string) => earlier.get(id)!.end;
+  Object.values(history).forEach(entries => entries.sort((a, b) => periodEnd(a.periodId) - periodEnd(b.periodId)));
+
+  return history;
+};
+
+export const loadMeterHistory = async (activePeriodId: string): Promise<MeterHistory> => {
+  const [periods, stored] = await Promise.all([listPeriods(), loadAllItems()]);
+  return buildMeterHistory(periods, stored, activePeriodId);
+};
+
+export const getPreviousEntry = (entries?: MeterHistoryEntry[]): MeterHistoryEntry | undefined =>
+  entries && entries.length > 0 ? entries[entries.length - 1] : undefined;
+
+export interface UsageDelta {
+  diff: number;
+  percent: number | null; // null when the previous usage was zero
+}
+
+export const getUsageDelta = (currentUsage: number, previousUsage: number): UsageDelta => {
+  const diff = parseFloat((currentUsage - previousUsage).toFixed(2));
+  const percent = previousUsage !== 0 ? parseFloat(((diff / previousUsage) * 100).toFixed(1)) : null;
+  return { diff, percent };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createImportedMeters, guessMapping, readImportTable } from './importService';
+
+const csv = (name: string, lines: string[]) => new File([lines.join('\r\n')], name, { type: 'text/csv' });
+
+describe('readImportTable', () => {
+  it('skips the title block and reads quoted fields', async () => {
+    const table = await readImportTable(csv('log.csv', [
+      'Energy log',
+      '',
+      '일시,"누적 전력량, kWh",계량기',
+      '2024-05-01 00:00,"1,000.5",1F AC',
+      '2024-06-01 00:00,"1,200.5",1F AC'
+    ]));
+    expect(table.headers).toEqual(['일시', '누적 전력량, kWh', '계량기']);
+    expect(table.rows).toHaveLength(2);
+    expect(table.rows[0][1]).toBe('1,000.5');
+    expect(table.signature).toBe('일시|누적 전력량, kwh|계량기');
+  });
+
+  it('refuses old .xls workbooks', async () => {
+    await expect(readImportTable(new File([''], 'log.xls'))).rejects.toThrow('Old .xls workbooks');
+  });
+});
+
+describe('guessMapping', () => {
+  it('picks the timestamp, reading and meter columns', async () => {
+    const table = await readImportTable(csv('log.csv', [
+      'Meter;Date;kWh',
+      'M1;2024-05-01 00:00;100',
+      'M1;2024-06-01 00:00;150'
+    ]));
+    expect(guessMapping(table)).toEqual({ timestamp: 'Date', value: 'kWh', meterId: 'Meter' });
+  });
+});
+
+describe('createImportedMeters', () => {
+  it('makes one reading per meter from the first reading of each day', async () => {
+    const table = await readImportTable(csv('log.csv', [
+      'Timestamp,Reading,Meter',
+      '2024-05-01 00:00,100,B',
+      '2024-05-01 00:15,101,B',
+      '2024-06-01 00:00,160,B',
+      '2024-05-01 00:00,10,A',
+      '2024-06-01 00:00,30,A'
+    ]));
+    const meters = createImportedMeters(table, { timestamp: 'Timestamp', value: 'Reading', meterId: 'Meter' });
+
+    expect(meters.map(m => m.file.name)).toEqual(['log · A.csv', 'log · B.csv']);
+    expect(meters.map(m => m.result.usage)).toEqual([20, 60]);
+    expect(meters[1].result.rows).toHaveLength(2);
+    expect(meters[1].result.meterLabel).toBe('B');
+  });
+
+  it('needs two dated readings', async () => {
+    const table = await readImportTable(csv('log.csv', ['Timestamp,Reading', '2024-05-01 00:00,100', 'n/a,110']));
+    expect(() => createImportedMeters(table, { timestamp: 'Timestamp', value: 'Reading' })).toThrow('two or more readings');
+  });
+});
@@ -0,0 +1,234 @@
+import type { CellValue } from "exceljs";
+import { AnalysisResult, ImportColumnMapping, ReadingData } from "../types";
+import { isSameDay, parseReadingDate, toIsoDateTime } from "./dateService";
+import { normalizeRows, pickBoundaryRows } from "./readingTableService";
+import { createAnalysisResult } from "./validationService";
+
+// Readings exported by the metering software as CSV or Excel, read without the model
+
+export interface ImportTable {
+  fileName: string;
+  format: 'csv' | 'xlsx';
+  headers: string[];
+  rows: string[][];
+  signature: string; // Identifies the export format; saved column mappings are keyed by it
+}
+
+// One meter's readings, ready to become an analysis item
+export interface ImportedMeter {
+  file: File; // The meter's rows as a small CSV, kept as the item's source
+  result: AnalysisResult;
+}
+
+export const IMPORT_ACCEPT = '.csv,.txt,.tsv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const isWorkbook = (file: File) =>
+  /\.xlsx$/i.test(file.name) || file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Exports from Korean software are often CP949 rather than UTF-8
+const decodeText = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch (e) {
+    return new TextDecoder('euc-kr').decode(buffer);
+  }
+};
+
+const detectDelimiter = (text: string): string => {
+  const head = text.split(/\r?\n/, 10).join('\n');
+  const count = (d: string) => head.split(d).length;
+  return [',', ';', '\t'].reduce((best, d) => count(d) > count(best) ? d : best);
+};
+
+// RFC 4180: quoted fields may contain delimiters, doubled quotes and line breaks
+const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+// Excel stores wall-clock times, which exceljs hands back as UTC dates
+const excelDateText = (date: Date): string => {
+  const d = new Date(Math.round(date.getTime() / 60000) * 60000);
+  return toIsoDateTime(new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours(), d.getUTCMinutes()));
+};
+
+const cellText = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return excelDateText(value);
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('result' in value) return cellText(value.result as CellValue);
+  if ('text' in value) return String(value.text);
+  return '';
+};
+
+const readWorkbook = async (file: File): Promise<string[][]> => {
+  // Loaded lazily, like the spreadsheet export
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets.find(ws => ws.actualRowCount > 1) || workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow(row => {
+    rows.push(Array.from({ length: row.cellCount }, (_, i) => cellText(row.getCell(i + 1).value)));
+  });
+  return rows;
+};
+
+// Exports often start with a title block; the header is the first row as wide as the table
+const findHeaderRow = (rows: string[][]): number => {
+  const widths = rows.slice(0, 20).map(row => row.filter(cell => cell.trim()).length);
+  return widths.indexOf(Math.max(0, ...widths));
+};
+
+// Blank headers get a placeholder and repeated ones a suffix, so every column can be picked by name
+const toHeaders = (row: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return row.map((cell, i) => {
+    const name = cell.trim() || `Column ${i + 1}`;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+};
+
+export const readImportTable = async (file: File): Promise<ImportTable> => {
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error("Old .xls workbooks cannot be read. Save the file as .xlsx or CSV and try again.");
+  }
+
+  const format = isWorkbook(file) ? 'xlsx' : 'csv';
+  let cells: string[][];
+  if (format === 'xlsx') {
+    cells = await readWorkbook(file);
+  } else {
+    const text = decodeText(await file.arrayBuffer()).replace(/^\uFEFF/, '');
+    cells = parseCsv(text, detectDelimiter(text));
+  }
+
+  const headerIndex = findHeaderRow(cells);
+  const rows = cells.slice(headerIndex + 1).filter(row => row.some(cell => cell.trim()));
+  if (headerIndex === -1 || rows.length === 0) throw new Error(`No reading rows found in ${file.name}.`);
+
+  const headers = toHeaders(cells[headerIndex]);
+  return {
+    fileName: file.name,
+    format,
+    headers,
+    rows,
+    signature: headers.map(h => h.toLowerCase()).join('|')
+  };
+};
+
+// "12,345.6 kWh" -> 12345.6; dates and labels are not readings
+const parseReadingValue = (cell: string): number | null => {
+  const match = cell.replace(/[,\s]/g, '').match(/^(-?\d+(?:\.\d+)?)[a-z]*$/i);
+  return match ? Number(match[1]) : null;
+};
+
+const COLUMN_HINTS: Record<keyof ImportColumnMapping, RegExp> = {
+  timestamp: /time|date|일시|시각|시간|날짜|일자/i,
+  value: /kwh|reading|value|energy|register|지침|검침|누적|전력량|값/i,
+  meterId: /meter|device|serial|channel|point|계량기|미터|기기|장치|번호|\bid\b/i
+};
+
+// Columns whose first filled cells all pass the test, preferring one whose name fits
+const pickColumn = (table: ImportTable, taken: string[], hint: RegExp, test: (cell: string) => boolean) => {
+  const candidates = table.headers.filter((header, i) => {
+    if (taken.includes(header)) return false;
+    const sample = table.rows.slice(0, 10).map(row => (row[i] || '').trim()).filter(Boolean);
+    return sample.length > 0 && sample.every(test);
+  });
+  return candidates.find(header => hint.test(header)) || candidates[0];
+};
+
+// First guess shown to the user for a format that has not been mapped yet
+export const guessMapping = (table: ImportTable): ImportColumnMapping => {
+  // Plain numbers also parse as dates (as years), so reading columns are ruled out first
+  const isTimestamp = (cell: string) => parseReadingValue(cell) === null && parseReadingDate(cell) !== null;
+  const timestamp = pickColumn(table, [], COLUMN_HINTS.timestamp, isTimestamp) || table.headers[0];
+  const value = pickColumn(table, [timestamp], COLUMN_HINTS.value, cell => parseReadingValue(cell) !== null)
+    || table.headers.find(h => h !== timestamp) || table.headers[0];
+  const meterId = table.headers.find(h => h !== timestamp && h !== value && COLUMN_HINTS.meterId.test(h));
+  return { timestamp, value, ...(meterId ? { meterId } : {}) };
+};
+
+// Interval logs (e.g. every 15 minutes) are reduced to the first reading of each day,
+// which is all boundary picking and the daily chart look at
+const toDailyRows = (rows: ReadingData[]): ReadingData[] =>
+  rows.filter((row, i) => i === 0 || !isSameDay(rows[i - 1].date, row.date));
+
+const toMeterCsv = (rows: ReadingData[]) =>
+  ['Timestamp,Reading', ...rows.map(r => `${r.date},${r.value}`)].join('\r\n') + '\r\n';
+
+// One result per meter ID (or one for the whole file), with the boundary rows picked as for a screenshot
+export const createImportedMeters = (table: ImportTable, mapping: ImportColumnMapping): ImportedMeter[] => {
+  const timestampCol = table.headers.indexOf(mapping.timestamp);
+  const valueCol = table.headers.indexOf(mapping.value);
+  const meterCol = mapping.meterId ? table.headers.indexOf(mapping.meterId) : -1;
+  if (timestampCol === -1 || valueCol === -1) throw new Error("Choose the timestamp and reading columns.");
+  if (timestampCol === valueCol) throw new Error("Timestamp and reading must be different columns.");
+
+  const byMeter = new Map<string, ReadingData[]>();
+  table.rows.forEach(row => {
+    const date = (row[timestampCol] || '').trim();
+    const value = parseReadingValue(row[valueCol] || '');
+    if (!date || value === null) return;
+    const meterId = meterCol === -1 ? '' : (row[meterCol] || '').trim();
+    if (!byMeter.has(meterId)) byMeter.set(meterId, []);
+    byMeter.get(meterId)!.push({ date, value });
+  });
+
+  const baseName = table.fileName.replace(/\.[^/.]+$/, '');
+  const meters = Array.from(byMeter, ([meterId, readings]): ImportedMeter | null => {
+    const rows = toDailyRows(normalizeRows(readings));
+    const boundary = pickBoundaryRows(rows);
+    if (!boundary) return null;
+    const name = meterId ? `${baseName} · ${meterId}` : baseName;
+    return {
+      file: new File([toMeterCsv(rows)], `${name}.csv`, { type: 'text/csv' }),
+      result: {
+        ...createAnalysisResult(boundary.start, boundary.end, undefined, rows),
+        model: `${table.format.toUpperCase()} import`,
+        ...(meterId ? { meterLabel: meterId } : {})
+      }
+    };
+  }).filter((meter): meter is ImportedMeter => meter !== null);
+
+  if (meters.length === 0) {
+    throw new Error(`No meter in ${table.fileName} has two or more readings with a valid timestamp.`);
+  }
+  return meters.sort((a, b) => a.file.name.localeCompare(b.file.name, undefined, { numeric: true, sensitivity: 'base' }));
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { BillingPeriod, InvoiceData, IssuedInvoice } from '../types';
+import { DEFAULT_BILLING_RULES } from './billingRulesService';
+import { EMPTY_ISSUER } from './issuerService';
+import {
+  createIssuedInvoice,
+  findIssuedInvoice,
+  getInvoiceSettings,
+  nextInvoiceNumber,
+  reissueInvoice,
+  voidInvoice,
+  withIssuedCopy
+} from './invoiceLedgerService';
+
+const period: BillingPeriod = { id: 'p-1', name: '2024-05', status: 'open', createdAt: 0, updatedAt: 0 };
+const settings = { rules: DEFAULT_BILLING_RULES };
+
+const makeInvoice = (totalCost: number, totalUsage = 100): InvoiceData => ({
+  tenant: { id: 't-1', name: '1F Cafe', meters: [], paymentTermDays: 30 },
+  items: [],
+  totalUsage,
+  totalCost,
+  totals: { supply: totalCost, vatRate: 10, vat: totalCost / 10, total: totalCost * 1.1 }
+});
+
+const issue = (ledger: IssuedInvoice[], invoice: InvoiceData, date: string, template?: string) =>
+  createIssuedInvoice(ledger, invoice, period, settings, template, undefined, new Date(date));
+
+describe('nextInvoiceNumber', () => {
+  it('counts up within the resolved prefix', () => {
+    const first = issue([], makeInvoice(1000), '2024-06-03T10:00');
+    const second = issue([first], makeInvoice(1000), '2024-06-04T10:00');
+    expect(first.number).toBe('INV-2024-0001');
+    expect(second.number).toBe('INV-2024-0002');
+  });
+
+  it('starts again each year and for each prefix', () => {
+    const ledger = [issue([], makeInvoice(1000), '2024-12-31T10:00')];
+    expect(nextInvoiceNumber(ledger, 'INV-{YYYY}-', new Date('2025-01-02T10:00')).number).toBe('INV-2025-0001');
+    expect(nextInvoiceNumber(ledger, 'B{YY}-', new Date('2024-12-31T11:00')).number).toBe('B24-0001');
+  });
+
+  it('never reuses the number of a voided invoice', () => {
+    const voided = voidInvoice(issue([], makeInvoice(1000), '2024-06-03T10:00'));
+    expect(nextInvoiceNumber([voided], 'INV-{YYYY}-', new Date('2024-06-04T10:00')).number).toBe('INV-2024-0002');
+  });
+});
+
+describe('createIssuedInvoice', () => {
+  it('fixes the dates, totals and a copy of the invoice', () => {
+    const invoice = makeInvoice(1000);
+    const entry = issue([], invoice, '2024-06-03T10:00');
+    expect(entry).toMatchObject({
+      issueDate: '2024-06-03',
+      dueDate: '2024-07-03',
+      periodId: 'p-1',
+      tenantId: 't-1',
+      totalCost: 1000,
+      totalDue: 1100,
+      status: 'issued',
+      rules: DEFAULT_BILLING_RULES
+    });
+    expect(entry.invoice).toEqual(invoice);
+  });
+
+  it('only keeps an issuer that has details', () => {
+    const invoice = makeInvoice(1000);
+    const now = new Date('2024-06-03T10:00');
+    expect(createIssuedInvoice([], invoice, period, { ...settings, issuer: EMPTY_ISSUER }, undefined, undefined, now).issuer).toBeUndefined();
+    const issuer = { ...EMPTY_ISSUER, companyName: '한빛빌딩' };
+    expect(createIssuedInvoice([], invoice, period, { ...settings, issuer }, undefined, undefined, now).issuer).toEqual(issuer);
+  });
+});
+
+describe('reissueInvoice', () => {
+  it('voids the current invoice and issues the replacement under a new number', () => {
+    const current = issue([], makeInvoice(1000), '2024-06-03T10:00');
+    const [voided, replacement] = reissueInvoice([current], current, makeInvoice(1200), period, settings, undefined, 'Wrong reading', new Date('2024-06-05T10:00'));
+
+    expect(voided).toMatchObject({ id: current.id, status: 'void', voidReason: 'Wrong reading', replacedBy: 'INV-2024-0002' });
+    expect(replacement).toMatchObject({ number: 'INV-2024-0002', replaces: 'INV-2024-0001', status: 'issued', totalCost: 1200 });
+    expect(findIssuedInvoice([voided, replacement], 'p-1', 't-1')).toBe(replacement);
+  });
+
+  it('refuses an invoice that was voided in the meantime', () => {
+    const current = issue([], makeInvoice(1000), '2024-06-03T10:00');
+    expect(() => reissueInvoice([voidInvoice(current)], current, makeInvoice(1200), period, settings))
+      .toThrow('INV-2024-0001 is no longer an issued invoice.');
+  });
+});
+
+describe('withIssuedCopy', () => {
+  const entry = issue([], makeInvoice(1000), '2024-06-03T10:00');
+
+  it('leaves drafts as they are', () => {
+    const live = makeInvoice(1200);
+    expect(withIssuedCopy(live, undefined)).toBe(live);
+  });
+
+  it('shows the issued copy and flags changed figures', () => {
+    const shown = withIssuedCopy(makeInvoice(1200), entry)!;
+    expect(shown.totalCost).toBe(1000);
+    expect(shown.issued).toBe(entry);
+    expect(shown.changedSinceIssue).toBe(true);
+    expect(withIssuedCopy(makeInvoice(1000), entry)!.changedSinceIssue).toBe(false);
+    expect(withIssuedCopy(undefined, entry)!.changedSinceIssue).toBe(true);
+  });
+});
+
+describe('getInvoiceSettings', () => {
+  it('uses the rules an invoice was issued with', () => {
+    const entry = issue([], makeInvoice(1000), '2024-06-03T10:00');
+    const current = { ...DEFAULT_BILLING_RULES, vatRate: 0 };
+    expect(getInvoiceSettings(withIssuedCopy(undefined, entry)!, current).rules).toBe(DEFAULT_BILLING_RULES);
+    expect(getInvoiceSettings(makeInvoice(1000), current).rules).toBe(current);
+  });
+});
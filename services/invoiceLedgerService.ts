@@ -0,0 +1,100 @@
+import { BillingPeriod, BillingRules, InvoiceData, IssuedInvoice, IssuedInvoiceCopy, IssuerProfile } from "../types";
+import { parseReadingDate, toIsoDate } from "./dateService";
+import { hasIssuerDetails } from "./issuerService";
+
+export const DEFAULT_INVOICE_PREFIX = 'INV-{YYYY}-';
+export const DEFAULT_PAYMENT_TERM_DAYS = 14;
+const SEQUENCE_DIGITS = 4;
+
+export const resolvePrefix = (template: string, date: Date) =>
+  template
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{YY\}/g, String(date.getFullYear()).slice(2));
+
+// Sequences run per resolved prefix, so "INV-{YYYY}-" starts again at 0001 each year
+export const nextInvoiceNumber = (ledger: IssuedInvoice[], template: string, date: Date) => {
+  const prefix = resolvePrefix(template, date);
+  const sequence = Math.max(0, ...ledger.filter(i => i.prefix === prefix).map(i => i.sequence)) + 1;
+  return { prefix, sequence, number: `${prefix}${String(sequence).padStart(SEQUENCE_DIGITS, '0')}` };
+};
+
+export const getDueDate = (issueDate: string, termDays: number = DEFAULT_PAYMENT_TERM_DAYS): string => {
+  const due = new Date(parseReadingDate(issueDate) ?? Date.now());
+  due.setDate(due.getDate() + termDays);
+  return toIsoDate(due);
+};
+
+// Everything but the issue reference; from now on the invoice is shown from this copy
+const toIssuedCopy = ({ issued, changedSinceIssue, ...copy }: InvoiceData): IssuedInvoiceCopy => copy;
+
+export const createIssuedInvoice = (
+  ledger: IssuedInvoice[],
+  invoice: InvoiceData,
+  period: BillingPeriod,
+  settings: { rules: BillingRules; issuer?: IssuerProfile },
+  template: string = DEFAULT_INVOICE_PREFIX,
+  replaces?: IssuedInvoice,
+  now: Date = new Date()
+): IssuedInvoice => {
+  const issueDate = toIsoDate(now);
+  return {
+    id: `inv-${now.getTime()}-${Math.random().toString(36).substr(2, 5)}`,
+    ...nextInvoiceNumber(ledger, template, now),
+    issueDate,
+    dueDate: getDueDate(issueDate, invoice.tenant.paymentTermDays),
+    periodId: period.id,
+    periodName: period.name,
+    tenantId: invoice.tenant.id,
+    tenantName: invoice.tenant.name,
+    totalUsage: invoice.totalUsage,
+    totalCost: invoice.totalCost,
+    totalDue: invoice.totals.total,
+    status: 'issued',
+    createdAt: now.getTime(),
+    rules: settings.rules,
+    ...(hasIssuerDetails(settings.issuer) ? { issuer: settings.issuer } : {}),
+    invoice: toIssuedCopy(invoice),
+    ...(replaces ? { replaces: replaces.number } : {})
+  };
+};
+
+// The live invoice of a tenant in a period, if one was issued and not voided
+export const findIssuedInvoice = (ledger: IssuedInvoice[], periodId: string, tenantId: string) =>
+  ledger.find(i => i.periodId === periodId && i.tenantId === tenantId && i.status === 'issued');
+
+// Voids the tenant's current invoice and issues the replacement; the caller writes both together
+export const reissueInvoice = (
+  ledger: IssuedInvoice[],
+  current: IssuedInvoice,
+  invoice: InvoiceData,
+  period: BillingPeriod,
+  settings: { rules: BillingRules; issuer?: IssuerProfile },
+  template: string = DEFAULT_INVOICE_PREFIX,
+  reason?: string,
+  now: Date = new Date()
+): [IssuedInvoice, IssuedInvoice] => {
+  // Another tab may have voided it in the meantime
+  const stored = ledger.find(i => i.id === current.id);
+  if (!stored || stored.status !== 'issued') throw new Error(`${current.number} is no longer an issued invoice.`);
+  const replacement = createIssuedInvoice(ledger, invoice, period, settings, template, stored, now);
+  return [voidInvoice(stored, reason, replacement.number, now), replacement];
+};
+
+// An issued invoice keeps its figures; the live ones only flag that it no longer matches them
+export const withIssuedCopy = (live: InvoiceData | undefined, entry: IssuedInvoice | undefined): InvoiceData | undefined => {
+  if (!entry) return live;
+  const changed = !live || live.totalUsage !== entry.invoice.totalUsage || live.totals.total !== entry.invoice.totals.total;
+  return { ...entry.invoice, issued: entry, changedSinceIssue: changed };
+};
+
+// Rules and supplier an invoice is drawn with: as issued, or the current settings for drafts
+export const getInvoiceSettings = (invoice: InvoiceData, rules: BillingRules, issuer?: IssuerProfile) =>
+  invoice.issued?.rules ? { rules: invoice.issued.rules, issuer: invoice.issued.issuer } : { rules, issuer };
+
+export const voidInvoice = (invoice: IssuedInvoice, reason?: string, replacedBy?: string, now: Date = new Date()): IssuedInvoice => ({
+  ...invoice,
+  status: 'void',
+  voidedAt: now.getTime(),
+  ...(reason ? { voidReason: reason } : {}),
+  ...(replacedBy ? { replacedBy } : {})
+});
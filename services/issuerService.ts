@@ -0,0 +1,52 @@
+import { IssuerProfile } from "../types";
+
+export const EMPTY_ISSUER: IssuerProfile = {
+  companyName: '',
+  registrationNumber: '',
+  representative: '',
+  address: '',
+  bankAccount: ''
+};
+
+// Logos and seals are scaled down before they go into localStorage
+const IMAGE_MAX_PX = 300;
+
+export const hasIssuerDetails = (issuer: IssuerProfile | undefined): issuer is IssuerProfile =>
+  !!issuer && !!issuer.companyName.trim();
+
+// "1234567890" -> "123-45-67890"; partial input is formatted as far as it goes
+export const formatBusinessNumber = (value: string): string => {
+  const digits = value.replace(/\D/g, '').slice(0, 10);
+  return [digits.slice(0, 3), digits.slice(3, 5), digits.slice(5)].filter(Boolean).join('-');
+};
+
+// Ten digits whose last one matches the National Tax Service check digit
+export const isValidBusinessNumber = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '').split('').map(Number);
+  if (digits.length !== 10) return false;
+  const weights = [1, 3, 7, 1, 3, 7, 1, 3, 5];
+  const sum = weights.reduce((acc, w, i) => acc + digits[i] * w, 0) + Math.floor((digits[8] * 5) / 10);
+  return (10 - (sum % 10)) % 10 === digits[9];
+};
+
+// PNG keeps the transparent background a seal usually has
+export const loadImageAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, IMAGE_MAX_PX / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    const ctx = canvas.getContext('2d');
+    URL.revokeObjectURL(url);
+    if (!ctx) return reject(new Error("Canvas is not available."));
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    resolve(canvas.toDataURL('image/png'));
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error("The file is not a readable image."));
+  };
+  img.src = url;
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeMeterImageLocally, parseOcrLabel, parseOcrLine } from './localOcrService';
+
+// Workers whose recognize() only settles when the test says so, like a long OCR run
+const workers = vi.hoisted(() => [] as { terminate: () => void; jobs: ((text: string) => void)[] }[]);
+
+vi.mock('tesseract.js', () => ({
+  createWorker: async () => {
+    const jobs: ((text: string) => void)[] = [];
+    const worker = {
+      jobs,
+      terminate: vi.fn(async () => {}),
+      recognize: () => new Promise(resolve => jobs.push(text => resolve({ data: { text, confidence: 90, blocks: null } })))
+    };
+    workers.push(worker);
+    return worker;
+  }
+}));
+
+describe('parseOcrLine', () => {
+  it('reads the date and the cumulative reading of a log row', () => {
+    const row = parseOcrLine('2024.5.1 00:00  12.3  1,234.5', 87);
+    expect(row?.reading).toEqual({ date: '2024-05-01 00:00', value: 1234.5 });
+    expect(row?.confidence).toBe(0.87);
+  });
+
+  it('skips lines without a date or a figure', () => {
+    expect(parseOcrLine('Total  1,234.5', 90)).toBeNull();
+    expect(parseOcrLine('2024-05-01 00:00', 90)).toBeNull();
+  });
+});
+
+describe('parseOcrLabel', () => {
+  it('finds English and Korean meter labels', () => {
+    expect(parseOcrLabel('Meter: 1F AC')).toBe('1F AC');
+    expect(parseOcrLabel('계량기명 : 서버실')).toBe('서버실');
+  });
+
+  it('ignores reading rows', () => {
+    expect(parseOcrLabel('2024-05-01 ID: 3')).toBeUndefined();
+  });
+});
+
+describe('analyzeMeterImageLocally', () => {
+  const LOG = '2024-05-01 00:00 100.0\n2024-06-01 00:00 250.5';
+  const image = () => new File([new Uint8Array(4)], 'log.png', { type: 'image/png' });
+
+  beforeEach(() => {
+    workers.length = 0;
+    vi.stubGlobal('window', { location: { href: 'http://localhost/' } });
+    vi.stubGlobal('createImageBitmap', async () => ({ width: 100, height: 100, close: () => {} }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('terminates the worker when the job is cancelled and restarts the other jobs', async () => {
+    const controller = new AbortController();
+    const cancelled = analyzeMeterImageLocally(image(), { signal: controller.signal });
+    const other = analyzeMeterImageLocally(image());
+    await vi.waitFor(() => expect(workers[0]?.jobs).toHaveLength(2));
+
+    controller.abort();
+    await expect(cancelled).rejects.toThrow('Analysis cancelled.');
+    expect(workers[0].terminate).toHaveBeenCalled();
+
+    // The other item's OCR runs again on a fresh worker
+    await vi.waitFor(() => expect(workers[1]?.jobs).toHaveLength(1));
+    workers[1].jobs[0](LOG);
+    expect((await other).usage).toBe(150.5);
+  });
+});
@@ -0,0 +1,201 @@
+import { AnalysisResult, BoundingBox, ExtractorOptions, ReadingData } from "../types";
+import { createAnalysisResult } from "./validationService";
+import { pickBoundaryRows } from "./readingTableService";
+import { fromPixelBox } from "./regionService";
+import type { Bbox, Block, Line, Page, Paragraph, Worker } from "tesseract.js";
+
+// Tesseract's worker, WASM core and language data are served by the app itself under /tesseract/
+// (see vite.config.ts). VITE_OCR_ASSET_PATH points elsewhere, with the same worker.min.js, core/ and lang/ layout.
+const getAssetPath = (): string => {
+  let path = '';
+  try {
+    // @ts-ignore
+    path = import.meta?.env?.VITE_OCR_ASSET_PATH || `${import.meta?.env?.BASE_URL || '/'}tesseract`;
+  } catch (e) {
+    path = '/tesseract';
+  }
+  // The worker resolves these paths itself, so they must be absolute
+  return new URL(path.replace(/\/$/, ''), window.location.href).href;
+};
+
+// Meter labels are often Korean, so both scripts are recognised
+const OCR_LANGUAGES = 'kor+eng';
+
+// worker.terminate() leaves the jobs it was running unsettled, so each job also races `stopped`
+interface OcrWorker {
+  worker: Worker;
+  stopped: Promise<never>;
+  terminate: () => void;
+}
+
+class WorkerStoppedError extends Error {}
+
+let workerPromise: Promise<OcrWorker> | null = null;
+
+// Not async, so every caller gets the very promise kept in workerPromise
+const getWorker = (): Promise<OcrWorker> => {
+  if (workerPromise) return workerPromise;
+
+  workerPromise = (async () => {
+    // Loaded lazily so the Gemini-only path never pays for the WASM bundle
+    const { createWorker } = await import('tesseract.js');
+    const assetPath = getAssetPath();
+    const worker = await createWorker(OCR_LANGUAGES, undefined, {
+      workerPath: `${assetPath}/worker.min.js`,
+      corePath: `${assetPath}/core`,
+      langPath: `${assetPath}/lang`
+    });
+    let stop!: (error: Error) => void;
+    const stopped = new Promise<never>((_, reject) => { stop = reject; });
+    stopped.catch(() => {});
+    return {
+      worker,
+      stopped,
+      terminate: () => {
+        worker.terminate();
+        stop(new WorkerStoppedError("The OCR worker was stopped."));
+      }
+    };
+  })();
+
+  workerPromise.catch(() => { workerPromise = null; });
+  return workerPromise;
+};
+
+// Cancelling a job terminates the shared worker, as Tesseract cannot stop a single job.
+// Jobs of other items caught by that start over on a fresh worker.
+const recognize = async (
+  file: File,
+  rectangle: { left: number; top: number; width: number; height: number } | undefined,
+  signal?: AbortSignal
+): Promise<Page> => {
+  const cancelled = () => new Error("Analysis cancelled.");
+  if (signal?.aborted) throw cancelled();
+  const pending = getWorker();
+  const ocr = await pending;
+  if (signal?.aborted) throw cancelled();
+
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      if (workerPromise === pending) workerPromise = null;
+      ocr.terminate();
+      reject(cancelled());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    const job = ocr.worker.recognize(file, rectangle ? { rectangle } : {}, { text: true, blocks: true });
+    const { data } = await Promise.race([job, ocr.stopped, aborted]);
+    return data;
+  } catch (error) {
+    if (signal?.aborted) throw cancelled();
+    if (error instanceof WorkerStoppedError) {
+      if (workerPromise === pending) workerPromise = null;
+      return recognize(file, rectangle, signal);
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+interface OcrRow {
+  time: number;
+  reading: ReadingData;
+  confidence: number;
+  box?: BoundingBox;
+}
+
+interface OcrLine {
+  text: string;
+  confidence: number;
+  bbox?: Bbox;
+}
+
+const DATE_PATTERN = /(\d{4})[-./](\d{1,2})[-./](\d{1,2})(?:[ T]+(\d{1,2}):(\d{2}))?/;
+const NUMBER_PATTERN = /\d[\d,]*\.?\d*/g;
+
+const pad = (n: string | number) => String(n).padStart(2, '0');
+
+// Turns one OCR'd table row ("2024-05-01 00:00  1,234.5  ...") into a reading
+export const parseOcrLine = (text: string, confidence: number): OcrRow | null => {
+  const dateMatch = text.match(DATE_PATTERN);
+  if (!dateMatch) return null;
+
+  const [matched, y, m, d, hh = '00', mm = '00'] = dateMatch;
+  const rest = text.slice((dateMatch.index || 0) + matched.length);
+  const numbers = (rest.match(NUMBER_PATTERN) || [])
+    .map(n => parseFloat(n.replace(/,/g, '')))
+    .filter(n => !isNaN(n));
+  if (numbers.length === 0) return null;
+
+  // Cumulative energy is the largest figure on a log row
+  const value = Math.max(...numbers);
+  const date = `${y}-${pad(m)}-${pad(d)} ${pad(hh)}:${pad(mm)}`;
+  const time = new Date(`${y}-${pad(m)}-${pad(d)}T${pad(hh)}:${pad(mm)}`).getTime();
+  if (isNaN(time)) return null;
+
+  return { time, reading: { date, value }, confidence: confidence / 100 };
+};
+
+// Picks the meter name out of a header line such as "Meter: 1F AC" or "계량기명 : 서버실"
+const LABEL_PATTERN = /(?:\b(?:meter|name|id)\b|계량기|미터|위치)[^:：]{0,8}[:：]\s*(.+)/i;
+
+export const parseOcrLabel = (text: string): string | undefined => {
+  if (DATE_PATTERN.test(text)) return undefined;
+  const label = text.match(LABEL_PATTERN)?.[1].trim();
+  return label || undefined;
+};
+
+export const analyzeMeterImageLocally = async (file: File, options: ExtractorOptions = {}): Promise<AnalysisResult> => {
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  const { crop } = options;
+  const rectangle = crop
+    ? { left: Math.round(crop.x * width), top: Math.round(crop.y * height), width: Math.round(crop.width * width), height: Math.round(crop.height * height) }
+    : undefined;
+  const data = await recognize(file, rectangle, options.signal);
+
+  // Line boxes are in pixels of the full image, even when a rectangle is set
+  const lines: OcrLine[] = [];
+  (data.blocks || []).forEach((block: Block) =>
+    block.paragraphs.forEach((p: Paragraph) => p.lines.forEach((l: Line) => lines.push({ text: l.text, confidence: l.confidence, bbox: l.bbox })))
+  );
+  if (lines.length === 0) {
+    String(data.text || '').split('\n').forEach(text => lines.push({ text, confidence: data.confidence }));
+  }
+
+  const rows = lines
+    .map(l => {
+      const row = parseOcrLine(l.text, l.confidence);
+      return row && l.bbox ? { ...row, box: fromPixelBox(l.bbox.x0, l.bbox.y0, l.bbox.x1, l.bbox.y1, width, height) } : row;
+    })
+    .filter((r): r is OcrRow => r !== null)
+    .sort((a, b) => a.time - b.time);
+
+  if (rows.length < 2) {
+    throw new Error("Local OCR could not find at least two dated readings in this image.");
+  }
+
+  const readings = rows.map(r => r.reading);
+  const { start, end } = pickBoundaryRows(readings, options.window)!;
+  const rowOf = (reading: typeof start) => rows[readings.indexOf(reading)];
+  const result = createAnalysisResult(start, end, {
+    startValue: rowOf(start).confidence,
+    endValue: rowOf(end).confidence,
+    startDate: rowOf(start).confidence,
+    endDate: rowOf(end).confidence
+  }, readings);
+  const regions = { start: rowOf(start).box, end: rowOf(end).box };
+  const meterLabel = lines.map(l => parseOcrLabel(l.text)).find(Boolean);
+  return {
+    ...result,
+    model: 'tesseract (local)',
+    ...(regions.start || regions.end ? { regions } : {}),
+    ...(meterLabel ? { meterLabel } : {})
+  };
+};
@@ -0,0 +1,121 @@
+import { AssignmentSuggestion, MeterAliases, MeterAssignment, Tenant } from "../types";
+
+// Suggestions at or above this score are assigned without asking
+export const AUTO_ASSIGN_THRESHOLD = 0.8;
+
+// Below this the match is noise and no suggestion is made
+const SUGGEST_THRESHOLD = 0.5;
+
+// A different meter scoring this close to the best one makes the match ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+
+// "Tenant-A_1F AC" -> ["tenant", "a", "1f", "ac"]
+const tokenize = (text: string): string[] =>
+  text.normalize('NFKC').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Case, spacing and punctuation do not matter: "1F-AC" and "1f ac" are the same label
+export const normalizeLabel = (text: string) => tokenize(text).join('');
+
+const levenshtein = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const similarity = (a: string, b: string) =>
+  a && b ? 1 - levenshtein(a, b) / Math.max(a.length, b.length) : 0;
+
+// Best similarity of `name` to any run of words in the text, so "1F AC" is found in "tenantA_1F_AC_0501"
+const findScore = (tokens: string[], name: string): number => {
+  const target = normalizeLabel(name);
+  const size = tokenize(name).length;
+  let best = 0;
+  for (let n = Math.max(1, size - 1); n <= size + 1; n++) {
+    for (let i = 0; i + n <= tokens.length; i++) {
+      best = Math.max(best, similarity(tokens.slice(i, i + n).join(''), target));
+    }
+  }
+  return best;
+};
+
+const meterExists = (tenants: Tenant[], assignment: MeterAssignment) =>
+  tenants.some(t => t.id === assignment.tenantId && t.meters.some(m => m.name === assignment.meterName));
+
+interface Candidate {
+  assignment: MeterAssignment;
+  score: number;
+  source: AssignmentSuggestion['source'];
+}
+
+// A meter name match counts most; naming the tenant as well settles meters that share a name
+const scoreMeters = (tenants: Tenant[], text: string, source: Candidate['source']): Candidate[] => {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return [];
+  // Only the best-matching tenant name counts, so "Company B" does not also vouch for "Company A"
+  const tenantScores = tenants.map(t => findScore(tokens, t.name));
+  const bestTenant = Math.max(...tenantScores, 0);
+  return tenants.flatMap((tenant, idx) => {
+    const tenantBonus = bestTenant >= AUTO_ASSIGN_THRESHOLD && tenantScores[idx] === bestTenant ? 0.1 : 0;
+    return tenant.meters.map(meter => ({
+      assignment: { tenantId: tenant.id, meterName: meter.name },
+      score: findScore(tokens, meter.name) * 0.9 + tenantBonus,
+      source
+    }));
+  });
+};
+
+const scoreAliases = (tenants: Tenant[], aliases: MeterAliases, label: string): Candidate[] => {
+  const key = normalizeLabel(label);
+  if (!key) return [];
+  return Object.entries(aliases)
+    .filter(([, assignment]) => meterExists(tenants, assignment))
+    .map(([alias, assignment]) => ({ assignment, score: similarity(key, alias), source: 'alias' as const }));
+};
+
+// Proposes the tenant and meter for a reading from the label seen on screen and the file name
+export const suggestAssignment = (
+  tenants: Tenant[],
+  aliases: MeterAliases,
+  meterLabel?: string,
+  fileName?: string
+): AssignmentSuggestion | undefined => {
+  const candidates = [
+    ...(meterLabel ? [...scoreAliases(tenants, aliases, meterLabel), ...scoreMeters(tenants, meterLabel, 'label')] : []),
+    ...(fileName ? scoreMeters(tenants, fileName.replace(/\.[^.]+$/, ''), 'filename') : [])
+  ];
+
+  // Keep the best score per meter, then rank the meters
+  const best = new Map<string, Candidate>();
+  candidates.forEach(c => {
+    const key = `${c.assignment.tenantId}::${c.assignment.meterName}`;
+    if (!best.has(key) || best.get(key)!.score < c.score) best.set(key, c);
+  });
+  const ranked = [...best.values()].sort((a, b) => b.score - a.score);
+  const [top, runnerUp] = ranked;
+  if (!top || top.score < SUGGEST_THRESHOLD) return undefined;
+
+  return {
+    assignment: top.assignment,
+    score: parseFloat(Math.min(top.score, 1).toFixed(2)),
+    source: top.source,
+    ...(runnerUp && top.score - runnerUp.score < AMBIGUITY_MARGIN ? { ambiguous: true } : {})
+  };
+};
+
+export const isConfidentMatch = (suggestion: AssignmentSuggestion) =>
+  suggestion.score >= AUTO_ASSIGN_THRESHOLD && !suggestion.ambiguous;
+
+// Remembers what a reviewer assigned a label to, so the next screenshot with it matches exactly
+export const rememberAlias = (aliases: MeterAliases, label: string | undefined, assignment: MeterAssignment): MeterAliases => {
+  const key = label ? normalizeLabel(label) : '';
+  if (!key || !assignment.tenantId || !assignment.meterName) return aliases;
+  const current = aliases[key];
+  if (current?.tenantId === assignment.tenantId && current.meterName === assignment.meterName) return aliases;
+  return { ...aliases, [key]: assignment };
+};
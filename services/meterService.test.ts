@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { applyMeterScaling, calculateUsage } from './meterService';
+import { createAnalysisResult, needsReview } from './validationService';
+
+describe('calculateUsage', () => {
+  it('applies the CT multiplier to the register difference', () => {
+    expect(calculateUsage(1000.5, 1200.75, 40)).toBe(8010);
+  });
+
+  it('keeps the sign when the end reading is lower', () => {
+    expect(calculateUsage(99990, 15)).toBe(-99975);
+    expect(calculateUsage(100, 100)).toBe(0);
+  });
+});
+
+describe('reversed readings', () => {
+  const reversed = createAnalysisResult({ date: '2024-05-01 00:00', value: 1200 }, { date: '2024-06-01 00:00', value: 1000 });
+
+  it('are flagged with negative usage', () => {
+    expect(reversed.usage).toBe(-200);
+    expect(reversed.warnings?.map(w => w.type)).toContain('reversed');
+    expect(applyMeterScaling(reversed, { name: 'AC', multiplier: 10 }).usage).toBe(-2000);
+  });
+
+  it('stay off invoices even when confirmed', () => {
+    expect(needsReview({ ...reversed, confirmed: true })).toBe(true);
+    const corrected = createAnalysisResult({ date: '2024-05-01 00:00', value: 1000 }, { date: '2024-06-01 00:00', value: 1200 });
+    expect(needsReview({ ...corrected, confirmed: true })).toBe(false);
+  });
+});
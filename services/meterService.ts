@@ -0,0 +1,80 @@
+import { AnalysisItem, AnalysisResult, MeterAssignment, MeterDefinition, Tenant } from "../types";
+
+// Billed kWh from two register values. Negative when the end is below the start (a misread or a
+// register that rolled over); such readings are flagged and kept off invoices until corrected.
+export const calculateUsage = (startValue: number, endValue: number, multiplier: number = 1): number =>
+  parseFloat(((endValue - startValue) * multiplier).toFixed(2)) || 0;
+
+// Register difference before the CT multiplier
+export const getRawUsage = (result: AnalysisResult): number =>
+  calculateUsage(result.startReading.value, result.endReading.value);
+
+export const getMeterDefinition = (tenants: Tenant[], assignment: MeterAssignment): MeterDefinition | undefined =>
+  tenants.find(t => t.id === assignment.tenantId)?.meters.find(m => m.name === assignment.meterName);
+
+// Applies the meter's CT ratio and register unit to an extracted result
+export const applyMeterScaling = (result: AnalysisResult, meter?: MeterDefinition): AnalysisResult => {
+  const multiplier = meter?.multiplier && meter.multiplier > 0 ? meter.multiplier : 1;
+  const rawUnit = meter?.unit && meter.unit !== 'kWh' ? meter.unit : undefined;
+  return {
+    ...result,
+    multiplier: multiplier !== 1 ? multiplier : undefined,
+    rawUnit,
+    usage: calculateUsage(result.startReading.value, result.endReading.value, multiplier)
+  };
+};
+
+// Tenants saved before meters became objects stored plain name strings
+export const normalizeTenants = (tenants: any[]): Tenant[] =>
+  tenants.map(t => ({
+    ...t,
+    meters: (t.meters || []).map((m: string | MeterDefinition) => typeof m === 'string' ? { name: m } : m)
+  }));
+
+// Sums readings per meter name for one tenant (several screenshots may cover one meter)
+const grossUsageByMeter = (tenantId: string, items: AnalysisItem[]): Map<string, number> => {
+  const usage = new Map<string, number>();
+  items.forEach(item => {
+    if (!item.result || item.assignment.tenantId !== tenantId) return;
+    const name = item.assignment.meterName;
+    usage.set(name, (usage.get(name) || 0) + item.result.usage);
+  });
+  return usage;
+};
+
+// Net usage per item: a parent meter's reading minus the readings of its direct children.
+// Children are billed on their own lines, so they are only subtracted once.
+export const calculateNetUsage = (tenant: Tenant, items: AnalysisItem[]): Record<string, number> => {
+  const gross = grossUsageByMeter(tenant.id, items);
+  const net: Record<string, number> = {};
+
+  items.forEach(item => {
+    if (!item.result || item.assignment.tenantId !== tenant.id) return;
+    const name = item.assignment.meterName;
+    const childUsage = tenant.meters
+      .filter(m => m.parent === name && m.name !== name)
+      .reduce((acc, child) => acc + (gross.get(child.name) || 0), 0);
+
+    // With several readings for one parent, spread the subtraction by share of the gross
+    const parentGross = gross.get(name) || 0;
+    const portion = parentGross > 0 ? item.result.usage / parentGross : 0;
+    net[item.id] = Math.max(parseFloat((item.result.usage - childUsage * portion).toFixed(2)), 0);
+  });
+
+  return net;
+};
+
+// Candidate parents for a meter: any other meter of the tenant that is not downstream of it
+export const getParentOptions = (tenant: Tenant, meterName: string): string[] => {
+  const isDescendant = (name: string): boolean => {
+    let current = tenant.meters.find(m => m.name === name);
+    const seen = new Set<string>();
+    while (current?.parent && !seen.has(current.name)) {
+      if (current.parent === meterName) return true;
+      seen.add(current.name);
+      current = tenant.meters.find(m => m.name === current!.parent);
+    }
+    return false;
+  };
+  return tenant.meters.map(m => m.name).filter(name => name !== meterName && !isDescendant(name));
+};
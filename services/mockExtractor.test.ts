@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeMeterImageMock } from './mockExtractor';
+
+const file = (name: string, size: number) => new File([new Uint8Array(size)], name, { type: 'image/png' });
+
+describe('analyzeMeterImageMock', () => {
+  it('returns the same reading for the same file', async () => {
+    const first = await analyzeMeterImageMock(file('1F AC.png', 10));
+    const second = await analyzeMeterImageMock(file('1F AC.png', 10));
+    expect(second).toEqual(first);
+    expect(first.usage).toBeGreaterThan(0);
+    expect(first.model).toBe('mock');
+  });
+
+  it('dates the readings by the billing window', async () => {
+    const result = await analyzeMeterImageMock(file('1F AC.png', 10), { window: { start: '2024-05-01', end: '2024-06-01' } });
+    expect(result.startReading.date).toBe('2024-05-01T00:00');
+    expect(result.endReading.date).toBe('2024-06-01T00:00');
+  });
+});
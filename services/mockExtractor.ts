@@ -0,0 +1,29 @@
+import { AnalysisResult, ExtractorOptions } from "../types";
+import { createAnalysisResult } from "./validationService";
+
+// Simple string hash so the same file always yields the same reading
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+// Deterministic fake reading for tests and demos; never touches the network
+export const analyzeMeterImageMock = async (file: File, options: ExtractorOptions = {}): Promise<AnalysisResult> => {
+  const seed = hash(`${file.name}:${file.size}`);
+  const start = 10000 + (seed % 50000) / 10;
+  const usage = 100 + (seed % 4000) / 10;
+
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const format = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} 00:00`;
+  const startDate = options.window ? `${options.window.start} 00:00` : format(new Date(now.getFullYear(), now.getMonth() - 1, 1));
+  const endDate = options.window ? `${options.window.end} 00:00` : format(new Date(now.getFullYear(), now.getMonth(), 1));
+
+  const result = createAnalysisResult(
+    { date: startDate, value: parseFloat(start.toFixed(1)) },
+    { date: endDate, value: parseFloat((start + usage).toFixed(1)) },
+    { startValue: 1, endValue: 1, startDate: 1, endDate: 1 }
+  );
+  return { ...result, model: 'mock' };
+};
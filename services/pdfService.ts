@@ -0,0 +1,713 @@
+import { jsPDF } from 'jspdf';
+import { BillingRules, InvoiceData, InvoiceLineItem, IssuerProfile } from "../types";
+import { formatReadingDate } from "./dateService";
+import { ALLOCATION_METHOD_LABELS } from "./allocationService";
+import { getRawUsage } from "./meterService";
+import { getUsageDelta } from "./historyService";
+import { findRowIndex, getDailyUsage } from "./readingTableService";
+import { formatAmount, formatMoney, getCurrencySymbol } from "./billingRulesService";
+import { hasIssuerDetails } from "./issuerService";
+import { getInvoiceSettings } from "./invoiceLedgerService";
+
+// Invoices are drawn with jsPDF primitives, so text stays selectable and sharp and only
+// the evidence photos are embedded as images.
+
+// NanumGothic covers Hangul and ₩. It is copied from node_modules into the app's fonts/ (see
+// vite.config.ts) and fetched on the first export; VITE_PDF_FONT_PATH can point at another copy.
+const DEFAULT_FONT_PATH = 'fonts';
+const FONT_FAMILY = 'NanumGothic';
+const FONT_FILES = { normal: 'NanumGothic-Regular.ttf', bold: 'NanumGothic-Bold.ttf' } as const;
+
+const getFontPath = (): string => {
+  try {
+    // @ts-ignore
+    const env = import.meta?.env;
+    return (env?.VITE_PDF_FONT_PATH || `${env?.BASE_URL || '/'}${DEFAULT_FONT_PATH}`).replace(/\/$/, '');
+  } catch (e) {
+    return `/${DEFAULT_FONT_PATH}`;
+  }
+};
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+let fontPromise: Promise<Record<keyof typeof FONT_FILES, string>> | null = null;
+
+const loadFonts = () => {
+  if (fontPromise) return fontPromise;
+
+  fontPromise = (async () => {
+    const base = getFontPath();
+    const [normal, bold] = await Promise.all([FONT_FILES.normal, FONT_FILES.bold].map(async name => {
+      const response = await fetch(`${base}/${name}`);
+      if (!response.ok) throw new Error(`Could not load ${name} (${response.status}).`);
+      return toBase64(await response.arrayBuffer());
+    }));
+    return { normal, bold };
+  })();
+
+  fontPromise.catch(() => { fontPromise = null; });
+  return fontPromise;
+};
+
+// The built-in Helvetica only covers Latin-1
+const needsUnicodeFont = (invoices: InvoiceData[], options: InvoicePdfOptions) =>
+  /[^\x00-\xff]/.test(JSON.stringify(invoices.map(invoice => {
+    const { issuer } = getInvoiceSettings(invoice, options.rules, options.issuer);
+    return [
+      issuer?.companyName,
+      issuer?.representative,
+      issuer?.address,
+      issuer?.bankAccount,
+      invoice.tenant.name,
+      invoice.tariff?.name,
+      invoice.seasonName,
+      invoice.items.map(i => i.meterName),
+      invoice.sharedItems?.map(i => i.meterName),
+      invoice.charges?.map(c => c.label),
+      invoice.adjustments?.map(c => c.label)
+    ];
+  })));
+
+type Rgb = [number, number, number];
+
+const INK: Rgb = [17, 24, 39];
+const GRAY_700: Rgb = [55, 65, 81];
+const GRAY_500: Rgb = [107, 114, 128];
+const GRAY_400: Rgb = [156, 163, 175];
+const GRAY_200: Rgb = [229, 231, 235];
+const GRAY_50: Rgb = [249, 250, 251];
+const SLATE_900: Rgb = [15, 23, 42];
+const SLATE_400: Rgb = [148, 163, 184];
+const WHITE: Rgb = [255, 255, 255];
+const BLUE: Rgb = [37, 99, 235];
+const AMBER: Rgb = [251, 191, 36];
+const RED: Rgb = [220, 38, 38];
+const GREEN: Rgb = [22, 163, 74];
+const PURPLE: Rgb = [147, 51, 234];
+
+// A4 portrait, in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 10;
+const ROW_HEIGHT = 7;
+
+// Evidence is re-encoded to at most 1600 px wide (about 225 dpi across the page) to keep files small
+const EVIDENCE_MAX_PX = 1600;
+const EVIDENCE_MAX_HEIGHT = 120;
+
+interface PdfContext {
+  doc: jsPDF;
+  y: number;
+  font: string;
+  currency: string; // Symbol such as "₩", or the ISO code when the Korean font is unavailable
+  rules: BillingRules;
+  issuer?: IssuerProfile; // Only set when the profile has a company name
+}
+
+interface PdfColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+type PdfCell = string | { text: string; span: number; color?: Rgb };
+
+interface PdfRow {
+  cells: PdfCell[];
+  bold?: boolean;
+  fill?: Rgb;
+  colors?: (Rgb | undefined)[]; // Text colour per column
+}
+
+export interface InvoicePdfOptions {
+  unitPrice: number;
+  showCost: boolean;
+  rules: BillingRules;
+  issuer?: IssuerProfile;
+}
+
+const setText = (ctx: PdfContext, size: number, style: 'normal' | 'bold' = 'normal', color: Rgb = INK) => {
+  ctx.doc.setFont(ctx.font, style);
+  ctx.doc.setFontSize(size);
+  ctx.doc.setTextColor(...color);
+};
+
+// Helvetica cannot draw most currency symbols, so the fallback spells out the code
+const money = (ctx: PdfContext, amount: number) => ctx.font === FONT_FAMILY
+  ? formatMoney(amount, ctx.rules)
+  : `${ctx.rules.currency} ${formatAmount(amount, ctx.rules)}`;
+
+// Shortens text with an ellipsis until it fits the width
+const fit = (doc: jsPDF, text: string, width: number): string => {
+  if (doc.getTextWidth(text) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && doc.getTextWidth(`${cut}...`) > width) cut = cut.slice(0, -1);
+  return `${cut}...`;
+};
+
+// Starts a new page when the next block would run into the footer
+const ensureSpace = (ctx: PdfContext, height: number): boolean => {
+  if (ctx.y + height <= PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) return false;
+  ctx.doc.addPage();
+  ctx.y = MARGIN;
+  return true;
+};
+
+const drawRule = (ctx: PdfContext, color: Rgb = GRAY_200, width = 0.2) => {
+  ctx.doc.setDrawColor(...color);
+  ctx.doc.setLineWidth(width);
+  ctx.doc.line(MARGIN, ctx.y, MARGIN + CONTENT_WIDTH, ctx.y);
+};
+
+const drawCells = (ctx: PdfContext, columns: PdfColumn[], cells: PdfCell[], colors?: (Rgb | undefined)[]) => {
+  let x = MARGIN;
+  let col = 0;
+  cells.forEach(cell => {
+    const { text, span, color } = typeof cell === 'string' ? { text: cell, span: 1, color: undefined } : cell;
+    const spanned = columns.slice(col, col + span);
+    const width = spanned.reduce((acc, c) => acc + c.width, 0);
+    const align = spanned[spanned.length - 1]?.align || 'left';
+    ctx.doc.setTextColor(...(color || colors?.[col] || INK));
+    const value = fit(ctx.doc, text, width - 4);
+    if (align === 'right') ctx.doc.text(value, x + width - 2, ctx.y + 4.8, { align: 'right' });
+    else ctx.doc.text(value, x + 2, ctx.y + 4.8);
+    x += width;
+    col += span;
+  });
+};
+
+const drawTableHeader = (ctx: PdfContext, columns: PdfColumn[]) => {
+  ctx.doc.setFillColor(...GRAY_50);
+  ctx.doc.rect(MARGIN, ctx.y, CONTENT_WIDTH, ROW_HEIGHT, 'F');
+  setText(ctx, 7, 'bold', GRAY_500);
+  drawCells(ctx, columns, columns.map(c => c.header.toUpperCase()), columns.map(() => GRAY_500));
+  ctx.y += ROW_HEIGHT;
+  drawRule(ctx);
+};
+
+// Rows that spill onto a new page get the header again
+const drawTable = (ctx: PdfContext, columns: PdfColumn[], rows: PdfRow[]) => {
+  drawTableHeader(ctx, columns);
+  rows.forEach(row => {
+    if (ensureSpace(ctx, ROW_HEIGHT)) drawTableHeader(ctx, columns);
+    if (row.fill) {
+      ctx.doc.setFillColor(...row.fill);
+      ctx.doc.rect(MARGIN, ctx.y, CONTENT_WIDTH, ROW_HEIGHT, 'F');
+    }
+    setText(ctx, 8.5, row.bold ? 'bold' : 'normal');
+    drawCells(ctx, columns, row.cells, row.colors);
+    ctx.y += ROW_HEIGHT;
+    drawRule(ctx);
+  });
+};
+
+// Draws a PNG data URL centred in the box, keeping its aspect ratio
+const drawImageFit = (ctx: PdfContext, data: string, x: number, y: number, width: number, height: number) => {
+  try {
+    const { width: w, height: h } = ctx.doc.getImageProperties(data);
+    const scale = Math.min(width / w, height / h);
+    ctx.doc.addImage(data, 'PNG', x + (width - w * scale) / 2, y + (height - h * scale) / 2, w * scale, h * scale);
+  } catch (e) {
+    console.error("Failed to embed image in PDF", e);
+  }
+};
+
+// Issued invoices carry their number and dates; anything else is marked as a draft
+const drawBanner = (ctx: PdfContext, invoice: InvoiceData, draftDate: string) => {
+  const { doc } = ctx;
+  const height = 26;
+  const right = MARGIN + CONTENT_WIDTH - 8;
+  doc.setFillColor(...SLATE_900);
+  doc.rect(MARGIN, ctx.y, CONTENT_WIDTH, height, 'F');
+
+  let left = MARGIN + 8;
+  if (ctx.issuer?.logo) {
+    doc.setFillColor(...WHITE);
+    doc.roundedRect(MARGIN + 4, ctx.y + 3, 20, 20, 1.5, 1.5, 'F');
+    drawImageFit(ctx, ctx.issuer.logo, MARGIN + 5, ctx.y + 4, 18, 18);
+    left = MARGIN + 29;
+  }
+
+  setText(ctx, 18, 'bold', WHITE);
+  doc.text('ELECTRICITY INVOICE', left, ctx.y + 11);
+  setText(ctx, 9, 'normal', SLATE_400);
+  doc.text('Utility Charge Statement', left, ctx.y + 18);
+
+  setText(ctx, 14, 'bold', WHITE);
+  doc.text(fit(doc, invoice.tenant.name, 70), right, ctx.y + 10, { align: 'right' });
+  setText(ctx, 8, 'normal', SLATE_400);
+  if (invoice.issued) {
+    doc.text(`Invoice No. ${invoice.issued.number}`, right, ctx.y + 16, { align: 'right' });
+    doc.text(`Issued ${invoice.issued.issueDate} · Due ${invoice.issued.dueDate}`, right, ctx.y + 21, { align: 'right' });
+  } else {
+    doc.text('DRAFT', right, ctx.y + 16, { align: 'right' });
+    doc.text(`Date: ${draftDate}`, right, ctx.y + 21, { align: 'right' });
+  }
+
+  ctx.y += height + 8;
+};
+
+const formatDelta = (current: number, previous: number) => {
+  const { diff, percent } = getUsageDelta(current, previous);
+  const sign = diff > 0 ? '+' : '';
+  return `${sign}${diff.toLocaleString()} kWh${percent !== null ? ` (${sign}${percent}%)` : ''}`;
+};
+
+const deltaColor = (current: number, previous: number): Rgb => {
+  const { diff } = getUsageDelta(current, previous);
+  return diff > 0 ? RED : diff < 0 ? GREEN : GRAY_500;
+};
+
+// Name plus up to three detail lines; returns the height used
+const drawParty = (ctx: PdfContext, label: string, name: string, details: string[], x: number, width: number): number => {
+  const { doc } = ctx;
+  setText(ctx, 7, 'bold', GRAY_500);
+  doc.text(label, x, ctx.y);
+  setText(ctx, 12, 'bold');
+  doc.text(fit(doc, name, width), x, ctx.y + 6);
+  setText(ctx, 7.5, 'normal', GRAY_500);
+  details.forEach((line, i) => doc.text(fit(doc, line, width), x, ctx.y + 11 + i * 4));
+  return 8 + details.length * 4;
+};
+
+const drawSummary = (ctx: PdfContext, invoice: InvoiceData, options: InvoicePdfOptions) => {
+  const { doc } = ctx;
+  const { showCost } = options;
+  const right = MARGIN + CONTENT_WIDTH;
+  const { issuer } = ctx;
+  const columnWidth = issuer ? CONTENT_WIDTH / 3 - 4 : CONTENT_WIDTH / 2;
+
+  let height = 8;
+  let x = MARGIN;
+  if (issuer) {
+    height = drawParty(ctx, 'SUPPLIER', issuer.companyName, [
+      issuer.registrationNumber && `Business Reg. No. ${issuer.registrationNumber}`,
+      issuer.representative && `Representative ${issuer.representative}`,
+      issuer.address
+    ].filter(Boolean), x, columnWidth);
+    x += CONTENT_WIDTH / 3;
+  }
+  height = Math.max(height, drawParty(ctx, 'BILL TO', invoice.tenant.name, [
+    invoice.tenant.registrationNumber && `Business Reg. No. ${invoice.tenant.registrationNumber}`
+  ].filter(Boolean), x, columnWidth));
+
+  if (showCost) {
+    const rate = invoice.tariff
+      ? `${invoice.tariff.name}${invoice.seasonName ? ` · ${invoice.seasonName}` : ''}`
+      : `${money(ctx, invoice.unitRate ?? options.unitPrice)} / kWh`;
+    setText(ctx, 7, 'bold', GRAY_500);
+    doc.text('APPLIED RATE', right, ctx.y, { align: 'right' });
+    setText(ctx, 10, 'normal');
+    doc.text(fit(doc, rate, columnWidth), right, ctx.y + 6, { align: 'right' });
+  }
+  ctx.y += height + 6;
+};
+
+const drawMeterTable = (ctx: PdfContext, invoice: InvoiceData, options: InvoicePdfOptions) => {
+  const { showCost } = options;
+  const showTrend = invoice.items.some(item => item.previousUsage !== undefined);
+  const showNet = invoice.items.some(item => item.netUsage !== item.result.usage);
+
+  const fixed: PdfColumn[] = [
+    { header: 'Prev Reading', width: 24, align: 'right' },
+    { header: 'Curr Reading', width: 24, align: 'right' },
+    { header: showNet ? 'Gross (kWh)' : 'Usage (kWh)', width: 22, align: 'right' },
+    ...(showNet ? [{ header: 'Net (kWh)', width: 20, align: 'right' as const }] : []),
+    ...(showTrend ? [{ header: 'vs Last Month', width: 30, align: 'right' as const }] : []),
+    ...(showCost ? [{ header: `Amount (${ctx.currency})`, width: 24, align: 'right' as const }] : [])
+  ];
+  const columns: PdfColumn[] = [
+    { header: 'Meter Name', width: CONTENT_WIDTH - fixed.reduce((acc, c) => acc + c.width, 0) },
+    ...fixed
+  ];
+  const usageColor = showNet ? GRAY_500 : INK;
+
+  const meterRows: PdfRow[] = invoice.items.map((item, idx) => ({
+    cells: [
+      `${item.meterName || `Meter #${idx + 1}`}${item.result.multiplier ? ` ×${item.result.multiplier}` : ''}`,
+      item.result.startReading.value.toLocaleString(),
+      item.result.endReading.value.toLocaleString(),
+      item.result.usage.toLocaleString(),
+      ...(showNet ? [item.netUsage.toLocaleString()] : []),
+      ...(showTrend ? [item.previousUsage !== undefined
+        ? { text: formatDelta(item.result.usage, item.previousUsage), span: 1, color: deltaColor(item.result.usage, item.previousUsage) }
+        : ctx.font === FONT_FAMILY ? '—' : '-'] : []),
+      ...(showCost ? [formatAmount(item.cost, ctx.rules)] : [])
+    ],
+    colors: [INK, GRAY_500, GRAY_500, usageColor]
+  }));
+
+  const sharedRows: PdfRow[] = (invoice.sharedItems || []).map(item => ({
+    cells: [
+      { text: `${item.meterName} (Shared)`, span: 1, color: PURPLE },
+      { text: `${ALLOCATION_METHOD_LABELS[item.method]} · ${(item.share * 100).toFixed(1)}%`, span: 2, color: GRAY_500 },
+      item.usage.toLocaleString(),
+      ...(showNet ? [item.usage.toLocaleString()] : []),
+      ...(showTrend ? [''] : []),
+      ...(showCost ? [formatAmount(item.cost, ctx.rules)] : [])
+    ],
+    colors: [INK, GRAY_500, GRAY_500, usageColor]
+  }));
+
+  const grossSubtotal = parseFloat((
+    invoice.items.reduce((acc, item) => acc + item.result.usage, 0) +
+    (invoice.sharedItems || []).reduce((acc, item) => acc + item.usage, 0)
+  ).toFixed(2));
+  const meterSubtotal = invoice.items.reduce((acc, item) => acc + item.cost, 0) +
+    (invoice.sharedItems || []).reduce((acc, item) => acc + item.cost, 0);
+
+  const subtotal: PdfRow = {
+    cells: [
+      { text: 'SUBTOTAL', span: 3 },
+      ...(showNet ? [{ text: grossSubtotal.toLocaleString(), span: 1, color: GRAY_500 }] : []),
+      invoice.totalUsage.toLocaleString(),
+      ...(showTrend ? [''] : []),
+      ...(showCost ? [formatAmount(meterSubtotal, ctx.rules)] : [])
+    ],
+    bold: true,
+    fill: GRAY_50
+  };
+
+  const adjustments: PdfRow[] = showCost
+    ? (invoice.adjustments || []).map(line => ({
+        cells: [
+          { text: line.label, span: columns.length - 1 },
+          { text: formatAmount(line.amount, ctx.rules), span: 1, color: line.amount < 0 ? GREEN : INK }
+        ],
+        fill: GRAY_50
+      }))
+    : [];
+
+  drawTable(ctx, columns, [...meterRows, ...sharedRows, subtotal, ...adjustments]);
+  ctx.y += 8;
+};
+
+const drawCharges = (ctx: PdfContext, invoice: InvoiceData) => {
+  if (!invoice.charges || invoice.charges.length === 0) return;
+  ensureSpace(ctx, ROW_HEIGHT * 3);
+  drawTable(ctx, [
+    { header: 'Charge Calculation', width: CONTENT_WIDTH - 90 },
+    { header: '', width: 60, align: 'right' },
+    { header: 'Amount', width: 30, align: 'right' }
+  ], invoice.charges.map(line => ({
+    cells: [
+      line.label,
+      line.quantity !== undefined && line.rate !== undefined
+        ? `${line.quantity.toLocaleString()} kWh × ${money(ctx, line.rate)}`
+        : '',
+      money(ctx, line.amount)
+    ],
+    colors: [GRAY_700, GRAY_500, INK]
+  })));
+  ctx.y += 8;
+};
+
+const drawTotals = (ctx: PdfContext, invoice: InvoiceData) => {
+  const { doc } = ctx;
+  const { supply, vatRate, vat, total } = invoice.totals;
+  const width = 70;
+  const left = MARGIN + CONTENT_WIDTH - width;
+  const right = MARGIN + CONTENT_WIDTH;
+  ensureSpace(ctx, 26);
+
+  setText(ctx, 9, 'normal', GRAY_700);
+  doc.text('Supply Value', left, ctx.y + 4);
+  doc.text(money(ctx, supply), right, ctx.y + 4, { align: 'right' });
+  doc.text(vatRate > 0 ? `VAT (${vatRate}%)` : 'VAT (exempt)', left, ctx.y + 10);
+  doc.text(money(ctx, vat), right, ctx.y + 10, { align: 'right' });
+
+  doc.setDrawColor(...GRAY_400);
+  doc.setLineWidth(0.3);
+  doc.line(left, ctx.y + 14, right, ctx.y + 14);
+  setText(ctx, 11, 'bold');
+  doc.text('Total Due', left, ctx.y + 21);
+  setText(ctx, 15, 'bold', BLUE);
+  doc.text(money(ctx, total), right, ctx.y + 21, { align: 'right' });
+  ctx.y += 28;
+};
+
+// Bank details on the left, the representative and company seal on the right
+const drawSignOff = (ctx: PdfContext, invoice: InvoiceData, showCost: boolean) => {
+  const { doc, issuer } = ctx;
+  if (!issuer) return;
+  const right = MARGIN + CONTENT_WIDTH;
+  ensureSpace(ctx, 28);
+  ctx.y += 4;
+  drawRule(ctx);
+  ctx.y += 6;
+
+  if (showCost && issuer.bankAccount) {
+    setText(ctx, 7, 'bold', GRAY_500);
+    doc.text('PAYMENT', MARGIN, ctx.y + 3);
+    setText(ctx, 9, 'normal');
+    doc.text(fit(doc, issuer.bankAccount, CONTENT_WIDTH / 2), MARGIN, ctx.y + 8);
+    if (invoice.issued) {
+      setText(ctx, 7.5, 'normal', GRAY_500);
+      doc.text(`Please pay by ${invoice.issued.dueDate}, quoting ${invoice.issued.number}.`, MARGIN, ctx.y + 13);
+    }
+  }
+
+  const sealSize = 16;
+  const sealX = right - sealSize;
+  setText(ctx, 10, 'bold');
+  doc.text(fit(doc, issuer.companyName, CONTENT_WIDTH / 2 - sealSize), sealX - 2, ctx.y + 3, { align: 'right' });
+  setText(ctx, 9, 'normal', GRAY_700);
+  doc.text(fit(doc, `Representative ${issuer.representative}`, CONTENT_WIDTH / 2 - sealSize), sealX - 2, ctx.y + 10, { align: 'right' });
+  setText(ctx, 8, 'normal', GRAY_400);
+  doc.text(ctx.font === FONT_FAMILY ? '(인)' : '(Seal)', sealX + sealSize / 2, ctx.y + 10, { align: 'center' });
+  if (issuer.stamp) drawImageFit(ctx, issuer.stamp, sealX, ctx.y + 1, sealSize, sealSize);
+  ctx.y += sealSize + 6;
+};
+
+interface PdfImage {
+  data: string; // JPEG data URL
+  width: number;
+  height: number;
+}
+
+const loadEvidenceImage = (item: InvoiceLineItem): Promise<PdfImage | null> => {
+  const objectUrl = !item.isShared && !item.imported && item.file.size > 0 ? URL.createObjectURL(item.file) : undefined;
+  const src = item.isShared ? item.thumbnailUrl : objectUrl;
+  if (!src) return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    const img = new Image();
+    const done = (image: PdfImage | null) => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      resolve(image);
+    };
+    img.onload = () => {
+      const scale = Math.min(1, EVIDENCE_MAX_PX / img.width);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx2d = canvas.getContext('2d');
+      if (!ctx2d) return done(null);
+      ctx2d.fillStyle = '#FFFFFF';
+      ctx2d.fillRect(0, 0, canvas.width, canvas.height);
+      ctx2d.drawImage(img, 0, 0, canvas.width, canvas.height);
+      done({ data: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height });
+    };
+    img.onerror = () => done(null);
+    img.src = src;
+  });
+};
+
+// Small bar chart of the reading table, billed days in blue
+const drawDailyUsage = (ctx: PdfContext, item: InvoiceLineItem, height: number) => {
+  const { doc } = ctx;
+  const rows = item.result.rows || [];
+  const days = getDailyUsage(rows, item.result.multiplier);
+  const startIdx = findRowIndex(rows, item.result.startReading);
+  const endIdx = findRowIndex(rows, item.result.endReading);
+  const maxValue = Math.max(...days.map(d => Math.abs(d.usage)), 1);
+  const barWidth = CONTENT_WIDTH / days.length;
+
+  setText(ctx, 7, 'normal', GRAY_500);
+  doc.text(`Daily usage (${rows.length} readings)`, MARGIN, ctx.y + 3);
+  const base = ctx.y + height;
+  days.forEach((day, i) => {
+    const barHeight = Math.max((Math.abs(day.usage) / maxValue) * (height - 6), 0.3);
+    const billed = startIdx !== -1 && endIdx !== -1 && i >= startIdx && i < endIdx;
+    doc.setFillColor(...(day.usage < 0 ? RED : billed ? BLUE : GRAY_200));
+    doc.rect(MARGIN + i * barWidth + barWidth * 0.1, base - barHeight, barWidth * 0.8, barHeight, 'F');
+  });
+  ctx.y = base + 4;
+};
+
+const drawEvidenceImage = (ctx: PdfContext, item: InvoiceLineItem, image: PdfImage | null, height: number) => {
+  const { doc } = ctx;
+  if (!image) {
+    doc.setDrawColor(...GRAY_400);
+    doc.setLineDashPattern([1, 1], 0);
+    doc.rect(MARGIN, ctx.y, CONTENT_WIDTH, height);
+    doc.setLineDashPattern([], 0);
+    setText(ctx, 9, 'normal', GRAY_400);
+    doc.text(item.imported ? 'Readings imported from the metering software export' : 'Image not provided', PAGE_WIDTH / 2, ctx.y + height / 2, { align: 'center' });
+    ctx.y += height + 4;
+    return;
+  }
+
+  const width = Math.min(CONTENT_WIDTH, (height * image.width) / image.height);
+  const x = MARGIN + (CONTENT_WIDTH - width) / 2;
+  doc.addImage(image.data, 'JPEG', x, ctx.y, width, height);
+  doc.setDrawColor(...GRAY_200);
+  doc.setLineWidth(0.2);
+  doc.rect(x, ctx.y, width, height);
+
+  // Outline the billed rows like the on-screen highlight
+  const { regions } = item.result;
+  ([['START', regions?.start, AMBER], ['END', regions?.end, BLUE]] as const).forEach(([label, box, color]) => {
+    if (!box) return;
+    const bx = x + box.x * width;
+    const by = ctx.y + box.y * height;
+    doc.setDrawColor(...color);
+    doc.setLineWidth(0.5);
+    doc.rect(bx, by, box.width * width, box.height * height);
+    setText(ctx, 5, 'bold', color);
+    doc.text(label, bx, by - 0.8);
+  });
+  ctx.y += height + 4;
+};
+
+const drawEvidenceItem = async (ctx: PdfContext, item: InvoiceLineItem) => {
+  const { doc } = ctx;
+  const { result } = item;
+  const right = MARGIN + CONTENT_WIDTH;
+  const image = await loadEvidenceImage(item);
+  const imageHeight = image
+    ? Math.min(EVIDENCE_MAX_HEIGHT, (CONTENT_WIDTH * image.height) / image.width)
+    : item.imported ? 12 : 30;
+  const hasChart = !!result.rows && result.rows.length > 1;
+
+  // Keep a meter's details and photo on one page when they fit
+  const blockHeight = 12 + (item.previousUsage !== undefined ? 6 : 0) + (result.multiplier ? 6 : 0) +
+    (hasChart ? 22 : 0) + 16 + imageHeight + 10;
+  ensureSpace(ctx, Math.min(blockHeight, PAGE_HEIGHT - MARGIN * 2 - FOOTER_HEIGHT));
+
+  setText(ctx, 13, 'bold');
+  doc.text(fit(doc, item.meterName || 'Meter', CONTENT_WIDTH - 80), MARGIN, ctx.y + 5);
+  setText(ctx, 9, 'bold', GRAY_700);
+  const usageText = `Usage: ${result.usage.toLocaleString()} kWh${item.netUsage !== result.usage ? `   Net: ${item.netUsage.toLocaleString()} kWh` : ''}`;
+  doc.text(usageText, right, ctx.y + 5, { align: 'right' });
+  ctx.y += 9;
+  drawRule(ctx);
+  ctx.y += 3;
+
+  if (item.previousUsage !== undefined) {
+    setText(ctx, 8, 'normal', GRAY_500);
+    doc.text(`Last month: ${item.previousUsage.toLocaleString()} kWh`, right - 45, ctx.y + 3, { align: 'right' });
+    setText(ctx, 8, 'bold', deltaColor(result.usage, item.previousUsage));
+    doc.text(formatDelta(result.usage, item.previousUsage), right, ctx.y + 3, { align: 'right' });
+    ctx.y += 6;
+  }
+
+  if (result.multiplier) {
+    setText(ctx, 8, 'normal', GRAY_500);
+    doc.text(
+      `Register ${result.startReading.value} to ${result.endReading.value} = ${getRawUsage(result).toLocaleString()} ${result.rawUnit || 'kWh'} × ${result.multiplier} (CT) = ${result.usage.toLocaleString()} kWh`,
+      MARGIN, ctx.y + 3
+    );
+    ctx.y += 6;
+  }
+
+  if (hasChart) drawDailyUsage(ctx, item, 18);
+
+  setText(ctx, 7, 'normal', GRAY_500);
+  doc.text('Previous', MARGIN, ctx.y + 3);
+  doc.text('Current', right, ctx.y + 3, { align: 'right' });
+  setText(ctx, 11, 'bold');
+  doc.text(result.startReading.value.toLocaleString(), MARGIN, ctx.y + 8);
+  setText(ctx, 11, 'bold', BLUE);
+  doc.text(result.endReading.value.toLocaleString(), right, ctx.y + 8, { align: 'right' });
+  setText(ctx, 7, 'normal', GRAY_400);
+  doc.text(formatReadingDate(result.startReading.date), MARGIN, ctx.y + 12);
+  doc.text(formatReadingDate(result.endReading.date), right, ctx.y + 12, { align: 'right' });
+  ctx.y += 16;
+
+  ensureSpace(ctx, imageHeight);
+  drawEvidenceImage(ctx, item, image, imageHeight);
+  ctx.y += 6;
+};
+
+const drawEvidence = async (ctx: PdfContext, invoice: InvoiceData, draftDate: string) => {
+  const { doc } = ctx;
+  doc.addPage();
+  ctx.y = MARGIN;
+  drawBanner(ctx, invoice, draftDate);
+
+  setText(ctx, 14, 'bold');
+  doc.text('READING EVIDENCE', MARGIN, ctx.y + 5);
+  setText(ctx, 10, 'normal', GRAY_500);
+  doc.text(fit(doc, invoice.tenant.name, 80), MARGIN + CONTENT_WIDTH, ctx.y + 5, { align: 'right' });
+  ctx.y += 8;
+  drawRule(ctx, INK, 0.6);
+  ctx.y += 8;
+
+  for (const item of invoice.items) {
+    await drawEvidenceItem(ctx, item);
+  }
+};
+
+// pageIssuers[page - 1] is the supplier of the invoice drawn on that page
+const drawFooters = (ctx: PdfContext, pageIssuers: (IssuerProfile | undefined)[]) => {
+  const { doc } = ctx;
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    setText(ctx, 7, 'normal', GRAY_400);
+    const issuer = pageIssuers[page - 1];
+    if (issuer) {
+      const { companyName, registrationNumber, address } = issuer;
+      const line = [companyName, registrationNumber && `Business Reg. No. ${registrationNumber}`, address].filter(Boolean).join(' · ');
+      doc.text(fit(doc, line, CONTENT_WIDTH - 30), PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN / 2 - 3.5, { align: 'center' });
+    }
+    doc.text('Generated by Smart Meter Analytics', PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN / 2, { align: 'center' });
+    doc.text(`${page} / ${pages}`, MARGIN + CONTENT_WIDTH, PAGE_HEIGHT - MARGIN / 2, { align: 'right' });
+  }
+};
+
+// One statement page (more if the table is long) followed by the evidence pages, per invoice
+export const createInvoicePdf = async (invoices: InvoiceData[], options: InvoicePdfOptions): Promise<jsPDF> => {
+  const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4', compress: true });
+  const ctx: PdfContext = {
+    doc,
+    y: MARGIN,
+    font: 'helvetica',
+    currency: options.rules.currency,
+    rules: options.rules
+  };
+
+  try {
+    const fonts = await loadFonts();
+    doc.addFileToVFS(FONT_FILES.normal, fonts.normal);
+    doc.addFont(FONT_FILES.normal, FONT_FAMILY, 'normal');
+    doc.addFileToVFS(FONT_FILES.bold, fonts.bold);
+    doc.addFont(FONT_FILES.bold, FONT_FAMILY, 'bold');
+    ctx.font = FONT_FAMILY;
+  } catch (e) {
+    console.error("Failed to load the PDF font", e);
+    if (needsUnicodeFont(invoices, options)) {
+      throw new Error("The Korean PDF font could not be loaded. Check that fonts/ was deployed with the app, or set VITE_PDF_FONT_PATH.");
+    }
+  }
+
+  const draftDate = new Date().toLocaleDateString();
+  const pageIssuers: (IssuerProfile | undefined)[] = [];
+  for (let i = 0; i < invoices.length; i++) {
+    const invoice = invoices[i];
+    if (i > 0) doc.addPage();
+    ctx.y = MARGIN;
+
+    // Issued invoices are drawn with the rules and supplier they were issued with
+    const settings = getInvoiceSettings(invoice, options.rules, options.issuer);
+    ctx.rules = settings.rules;
+    ctx.issuer = hasIssuerDetails(settings.issuer) ? settings.issuer : undefined;
+    ctx.currency = ctx.font === FONT_FAMILY ? getCurrencySymbol(settings.rules) : settings.rules.currency;
+
+    drawBanner(ctx, invoice, draftDate);
+    drawSummary(ctx, invoice, options);
+    drawMeterTable(ctx, invoice, options);
+    if (options.showCost) {
+      drawCharges(ctx, invoice);
+      drawTotals(ctx, invoice);
+    }
+    drawSignOff(ctx, invoice, options.showCost);
+    await drawEvidence(ctx, invoice, draftDate);
+
+    while (pageIssuers.length < doc.getNumberOfPages()) pageIssuers.push(ctx.issuer);
+  }
+
+  drawFooters(ctx, pageIssuers);
+  return doc;
+};
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueueHooks, createAnalysisQueue, isTransientError } from './queueService';
+
+const deferred = () => {
+  let resolve!: () => void;
+  let reject!: (error: any) => void;
+  const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+const makeHooks = (run: QueueHooks['run']) => ({
+  run: vi.fn(run),
+  onStart: vi.fn(),
+  onRequeue: vi.fn(),
+  onFail: vi.fn(),
+  onCancel: vi.fn(),
+  onChange: vi.fn()
+});
+
+const settings = { concurrency: 2, requestsPerMinute: 60, maxAttempts: 3 };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('isTransientError', () => {
+  it('retries busy, rate-limited, timed-out and dropped requests', () => {
+    [0, 408, 429, 500, 503].forEach(status => expect(isTransientError(httpError(status))).toBe(true));
+  });
+
+  it('does not retry bad requests or errors without a status', () => {
+    expect(isTransientError(httpError(400))).toBe(false);
+    expect(isTransientError(httpError(403))).toBe(false);
+    expect(isTransientError(new Error('503 overloaded'))).toBe(false);
+  });
+});
+
+describe('createAnalysisQueue', () => {
+  it('runs at most `concurrency` jobs at once', async () => {
+    const jobs = new Map<string, ReturnType<typeof deferred>>();
+    const hooks = makeHooks(async id => {
+      jobs.set(id, deferred());
+      return jobs.get(id)!.promise;
+    });
+    const queue = createAnalysisQueue(hooks, settings);
+
+    queue.enqueue(['a', 'b', 'c']);
+    expect(hooks.onStart.mock.calls.map(([id]) => id)).toEqual(['a', 'b']);
+
+    jobs.get('a')!.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(hooks.onStart.mock.calls.map(([id]) => id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('counts every request a job makes against the per-minute budget', async () => {
+    const sent: number[] = [];
+    const hooks = makeHooks(async (_id, _signal, beforeRequest) => {
+      // A job that falls back across three requests
+      for (let i = 0; i < 3; i++) {
+        await beforeRequest();
+        sent.push(Date.now());
+      }
+    });
+    const queue = createAnalysisQueue(hooks, { ...settings, requestsPerMinute: 2 });
+
+    queue.enqueue(['a', 'b']);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sent).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(59999);
+    expect(sent).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sent).toHaveLength(4);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(sent).toHaveLength(6);
+    expect(hooks.onFail).not.toHaveBeenCalled();
+  });
+
+  it('re-queues transient failures until the attempts run out', async () => {
+    const hooks = makeHooks(async () => { throw httpError(503); });
+    const queue = createAnalysisQueue(hooks, settings);
+
+    queue.enqueue(['a']);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(hooks.onRequeue).toHaveBeenLastCalledWith('a', expect.any(Error), 1);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(hooks.onRequeue).toHaveBeenLastCalledWith('a', expect.any(Error), 2);
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(hooks.run).toHaveBeenCalledTimes(3);
+    expect(hooks.onFail).toHaveBeenCalledWith('a', expect.any(Error));
+  });
+
+  it('fails other errors straight away', async () => {
+    const hooks = makeHooks(async () => { throw httpError(400); });
+    const queue = createAnalysisQueue(hooks, settings);
+
+    queue.enqueue(['a']);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(hooks.onRequeue).not.toHaveBeenCalled();
+    expect(hooks.onFail).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts a cancelled job, including a request waiting for the budget', async () => {
+    const signals: AbortSignal[] = [];
+    const waits: Promise<void>[] = [];
+    const hooks = makeHooks((_id, signal, beforeRequest) => {
+      signals.push(signal);
+      const wait = beforeRequest().then(beforeRequest);
+      waits.push(wait);
+      return wait;
+    });
+    const queue = createAnalysisQueue(hooks, { ...settings, requestsPerMinute: 1 });
+
+    queue.enqueue(['a', 'b']);
+    await vi.advanceTimersByTimeAsync(0);
+    // The budget is spent, so only the first job has started
+    expect(hooks.onStart.mock.calls.map(([id]) => id)).toEqual(['a']);
+
+    queue.cancel('a');
+    expect(signals[0].aborted).toBe(true);
+    await expect(waits[0]).rejects.toThrow('Analysis cancelled.');
+    expect(hooks.onCancel).toHaveBeenCalledWith('a');
+    expect(hooks.onFail).not.toHaveBeenCalled();
+
+    queue.cancelAll();
+    expect(hooks.onCancel).toHaveBeenCalledWith('b');
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(hooks.run).toHaveBeenCalledTimes(1);
+  });
+});
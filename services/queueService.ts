@@ -0,0 +1,238 @@
+import { QueueSettings } from "../types";
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  concurrency: 2,
+  requestsPerMinute: 12, // Stays under the Gemini free tier's 15 RPM
+  maxAttempts: 3
+};
+
+const MINUTE_MS = 60000;
+const REQUEUE_DELAY_MS = 5000;
+
+// Rate limits, overloads, timeouts (408) and network drops (0) are worth another try; bad images are not.
+// Extractors put the HTTP status of the failed request on the error.
+const TRANSIENT_STATUSES = new Set([0, 408, 429, 500, 502, 503, 504]);
+
+export const isTransientError = (error: any) => TRANSIENT_STATUSES.has(error?.status);
+
+export interface QueueSnapshot {
+  total: number; // Jobs in the current run
+  completed: number;
+  failed: number;
+  running: string[];
+  pending: string[];
+  paused: boolean;
+  etaMs: number | null; // Null until the first job has finished
+}
+
+export interface QueueHooks {
+  // beforeRequest resolves once the request budget allows another API call; await it before each one
+  run: (id: string, signal: AbortSignal, beforeRequest: () => Promise<void>) => Promise<void>;
+  onStart: (id: string) => void;
+  onRequeue: (id: string, error: any, attempt: number) => void;
+  onFail: (id: string, error: any) => void;
+  onCancel: (id: string) => void;
+  onChange: (snapshot: QueueSnapshot) => void;
+}
+
+export interface AnalysisQueue {
+  enqueue: (ids: string[]) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  setSettings: (settings: QueueSettings) => void;
+}
+
+interface PendingJob {
+  id: string;
+  attempts: number;
+  notBefore: number;
+}
+
+export const EMPTY_QUEUE_SNAPSHOT: QueueSnapshot = {
+  total: 0, completed: 0, failed: 0, running: [], pending: [], paused: false, etaMs: null
+};
+
+// Runs jobs with at most `concurrency` in flight. Every API request a job makes (retries and model
+// fallbacks included) counts against `requestsPerMinute` over a sliding minute.
+export const createAnalysisQueue = (hooks: QueueHooks, initial: QueueSettings = DEFAULT_QUEUE_SETTINGS): AnalysisQueue => {
+  let settings = initial;
+  let pending: PendingJob[] = [];
+  const running = new Map<string, { job: PendingJob; controller: AbortController }>();
+  let requests: number[] = []; // When each request of the last minute was let through
+  let waiting: { resolve: () => void }[] = [];
+  let requestTimer: ReturnType<typeof setTimeout> | undefined;
+  let durations: number[] = [];
+  let paused = false;
+  let total = 0;
+  let completed = 0;
+  let failed = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const getEta = () => {
+    const remaining = pending.length + running.size;
+    if (remaining === 0) return 0;
+    if (durations.length === 0) return null;
+    const avg = durations.reduce((a, b) => a + b, 0) / durations.length;
+    const byConcurrency = (remaining * avg) / Math.max(1, settings.concurrency);
+    const byBudget = (remaining / Math.max(1, settings.requestsPerMinute)) * MINUTE_MS;
+    return Math.round(Math.max(byConcurrency, byBudget));
+  };
+
+  const emit = () => hooks.onChange({
+    total,
+    completed,
+    failed,
+    running: Array.from(running.keys()),
+    pending: pending.map(j => j.id),
+    paused,
+    etaMs: getEta()
+  });
+
+  const pruneRequests = (now: number) => {
+    requests = requests.filter(t => now - t < MINUTE_MS);
+    return requests.length < Math.max(1, settings.requestsPerMinute);
+  };
+
+  // Lets waiting requests through in order while the budget has room, then waits for the oldest to expire
+  const grantRequests = () => {
+    clearTimeout(requestTimer);
+    requestTimer = undefined;
+    const now = Date.now();
+    while (waiting.length > 0 && pruneRequests(now)) {
+      requests.push(now);
+      waiting.shift()!.resolve();
+    }
+    if (waiting.length > 0) requestTimer = setTimeout(grantRequests, requests[0] + MINUTE_MS - now);
+  };
+
+  const acquireRequest = (signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(new Error("Analysis cancelled."));
+    const onAbort = () => {
+      waiting = waiting.filter(w => w !== waiter);
+      reject(new Error("Analysis cancelled."));
+    };
+    const waiter = {
+      resolve: () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    waiting.push(waiter);
+    grantRequests();
+  });
+
+  const schedule = (delay: number) => {
+    clearTimeout(timer);
+    timer = setTimeout(pump, Math.max(0, delay));
+  };
+
+  const start = (job: PendingJob) => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    running.set(job.id, { job, controller });
+    hooks.onStart(job.id);
+
+    hooks.run(job.id, controller.signal, () => acquireRequest(controller.signal))
+      .then(() => {
+        if (controller.signal.aborted) return;
+        completed++;
+        durations.push(Date.now() - startedAt);
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        const attempt = job.attempts + 1;
+        if (isTransientError(error) && attempt < settings.maxAttempts) {
+          pending.push({ id: job.id, attempts: attempt, notBefore: Date.now() + REQUEUE_DELAY_MS * attempt });
+          hooks.onRequeue(job.id, error, attempt);
+        } else {
+          failed++;
+          hooks.onFail(job.id, error);
+        }
+      })
+      .finally(() => {
+        if (running.get(job.id)?.controller !== controller) return;
+        running.delete(job.id);
+        pump();
+      });
+  };
+
+  function pump() {
+    clearTimeout(timer);
+    timer = undefined;
+
+    while (!paused && running.size < Math.max(1, settings.concurrency) && pending.length > 0) {
+      const now = Date.now();
+      // No point starting a job whose first request would only wait for the budget
+      if (!pruneRequests(now)) {
+        schedule(requests[0] + MINUTE_MS - now);
+        break;
+      }
+
+      const idx = pending.findIndex(j => j.notBefore <= now);
+      if (idx === -1) {
+        schedule(Math.min(...pending.map(j => j.notBefore)) - now);
+        break;
+      }
+      start(pending.splice(idx, 1)[0]);
+    }
+
+    emit();
+  }
+
+  return {
+    enqueue: (ids) => {
+      // A fresh run starts once the previous one has drained
+      if (pending.length === 0 && running.size === 0) {
+        total = 0;
+        completed = 0;
+        failed = 0;
+        durations = [];
+      }
+      const queued = new Set([...pending.map(j => j.id), ...running.keys()]);
+      const added = ids.filter(id => !queued.has(id));
+      pending.push(...added.map(id => ({ id, attempts: 0, notBefore: 0 })));
+      total += added.length;
+      pump();
+    },
+    pause: () => {
+      paused = true;
+      emit();
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    cancel: (id) => {
+      const wasPending = pending.some(j => j.id === id);
+      pending = pending.filter(j => j.id !== id);
+      const entry = running.get(id);
+      if (entry) {
+        entry.controller.abort();
+        running.delete(id);
+      }
+      if (wasPending || entry) {
+        total--;
+        hooks.onCancel(id);
+      }
+      pump();
+    },
+    cancelAll: () => {
+      const ids = [...pending.map(j => j.id), ...running.keys()];
+      running.forEach(({ controller }) => controller.abort());
+      running.clear();
+      pending = [];
+      paused = false;
+      total -= ids.length;
+      ids.forEach(id => hooks.onCancel(id));
+      pump();
+    },
+    setSettings: (next) => {
+      settings = next;
+      grantRequests();
+      pump();
+    }
+  };
+};
@@ -0,0 +1,82 @@
+import { AnalysisResult, BillingWindow, ReadingData } from "../types";
+import { isSameDay, normalizeReadingDate, parseReadingDate } from "./dateService";
+import { calculateUsage } from "./meterService";
+
+export interface DailyUsage {
+  date: string;
+  usage: number;
+}
+
+// Drops rows without a readable date or value and orders the rest oldest first
+export const normalizeRows = (rows: ReadingData[]): ReadingData[] =>
+  rows
+    .map(r => ({ date: normalizeReadingDate(r.date), value: Number(r.value) }))
+    .filter(r => parseReadingDate(r.date) !== null && !isNaN(r.value))
+    .sort((a, b) => parseReadingDate(a.date)! - parseReadingDate(b.date)!);
+
+// Row closest in time to 00:00 of the given date
+const closestRow = (rows: ReadingData[], date: string) => {
+  const target = parseReadingDate(date)!;
+  return rows.reduce((best, row) =>
+    Math.abs(parseReadingDate(row.date)! - target) < Math.abs(parseReadingDate(best.date)! - target) ? row : best
+  );
+};
+
+// With a billing window, picks the first rows on its start and end dates (or the closest rows,
+// which then fail the window check). Otherwise picks the most recent complete month: the first
+// row on the 1st of a month and the first row on the 1st of the following month, falling back
+// to the first and last rows.
+export const pickBoundaryRows = (rows: ReadingData[], window?: BillingWindow): { start: ReadingData; end: ReadingData } | null => {
+  if (rows.length < 2) return null;
+
+  if (window) {
+    const start = rows.find(r => isSameDay(r.date, window.start)) || closestRow(rows, window.start);
+    const end = rows.find(r => isSameDay(r.date, window.end)) || closestRow(rows, window.end);
+    if (start !== end) return { start, end };
+  }
+
+  const monthStarts = new Map<number, ReadingData>(); // key: year * 12 + month
+  rows.forEach(row => {
+    const d = new Date(parseReadingDate(row.date)!);
+    const key = d.getFullYear() * 12 + d.getMonth();
+    if (d.getDate() === 1 && !monthStarts.has(key)) monthStarts.set(key, row);
+  });
+
+  const keys = Array.from(monthStarts.keys()).sort((a, b) => b - a);
+  for (const key of keys) {
+    const start = monthStarts.get(key - 1);
+    if (start) return { start, end: monthStarts.get(key)! };
+  }
+
+  return { start: rows[0], end: rows[rows.length - 1] };
+};
+
+// Usage between consecutive rows, labelled with the earlier row's date
+export const getDailyUsage = (rows: ReadingData[], multiplier = 1): DailyUsage[] =>
+  rows.slice(1).map((row, i) => ({
+    date: rows[i].date,
+    usage: calculateUsage(rows[i].value, row.value, multiplier)
+  }));
+
+export const findRowIndex = (rows: ReadingData[], reading: ReadingData) =>
+  rows.findIndex(r => r.date === reading.date && r.value === reading.value);
+
+// Bills the chosen rows instead of the extracted ones; the reading must be reviewed again
+export const applyBoundaryRows = (result: AnalysisResult, startIndex: number, endIndex: number): AnalysisResult => {
+  const rows = result.rows || [];
+  const startReading = { ...rows[startIndex] };
+  const endReading = { ...rows[endIndex] };
+  return {
+    ...result,
+    startReading,
+    endReading,
+    usage: calculateUsage(startReading.value, endReading.value, result.multiplier),
+    startFromHistory: false,
+    confirmed: false,
+    // Highlights only stay valid for rows that did not change
+    regions: result.regions && {
+      start: startReading.date === result.startReading.date ? result.regions.start : undefined,
+      end: endReading.date === result.endReading.date ? result.regions.end : undefined
+    }
+  };
+};
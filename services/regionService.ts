@@ -0,0 +1,34 @@
+import { BoundingBox } from "../types";
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Gemini reports boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid
+export const fromGeminiBox = (box?: number[]): BoundingBox | undefined => {
+  if (!box || box.length !== 4 || box.some(v => typeof v !== 'number' || isNaN(v))) return undefined;
+  const [ymin, xmin, ymax, xmax] = box.map(v => clamp01(v / 1000));
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+export const fromPixelBox = (x0: number, y0: number, x1: number, y1: number, width: number, height: number): BoundingBox => ({
+  x: clamp01(x0 / width),
+  y: clamp01(y0 / height),
+  width: clamp01((x1 - x0) / width),
+  height: clamp01((y1 - y0) / height)
+});
+
+// Maps a box found inside a crop back onto the full image
+export const uncropBox = (box: BoundingBox | undefined, crop?: BoundingBox): BoundingBox | undefined =>
+  box && crop
+    ? { x: crop.x + box.x * crop.width, y: crop.y + box.y * crop.height, width: box.width * crop.width, height: box.height * crop.height }
+    : box;
+
+// Compact form for share links
+export const toBoxArray = (box?: BoundingBox): number[] | null =>
+  box ? [box.x, box.y, box.width, box.height].map(v => parseFloat(v.toFixed(3))) : null;
+
+export const fromBoxArray = (box?: number[] | null): BoundingBox | undefined =>
+  box && box.length === 4 ? { x: box[0], y: box[1], width: box[2], height: box[3] } : undefined;
+
+// Drag rectangles smaller than this are treated as clicks
+export const isUsableCrop = (box: BoundingBox) => box.width > 0.02 && box.height > 0.02;
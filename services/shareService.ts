@@ -0,0 +1,159 @@
+import { BillingRules, InvoiceData, IssuerProfile, SharedInvoiceItem, SharedInvoicePayload } from "../types";
+import { createThumbnail } from "./geminiService";
+import { normalizeReadingDate } from "./dateService";
+import { toBoxArray } from "./regionService";
+import { hasIssuerDetails } from "./issuerService";
+
+// Compressed payloads are prefixed so we can still open old, plain-JSON links
+const COMPRESSED_PREFIX = 'z.';
+
+// Most servers and chat apps start truncating somewhere past 8-16k characters.
+// Stay under the safer bound and drop thumbnails if the link gets too long.
+const MAX_SHARE_URL_LENGTH = 16000;
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: GenericTransformStream): Promise<Uint8Array> => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+const isCompressionSupported = () =>
+  typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+export const encodeSharePayload = async (payload: SharedInvoicePayload): Promise<string> => {
+  const json = JSON.stringify(payload);
+  if (!isCompressionSupported()) {
+    // Older browsers: fall back to the original uncompressed format
+    return encodeURIComponent(json);
+  }
+  const compressed = await pipeThrough(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return COMPRESSED_PREFIX + toBase64Url(compressed);
+};
+
+// Accepts the value of the `share` query param (already URL-decoded by URLSearchParams)
+export const decodeSharePayload = async (value: string): Promise<SharedInvoicePayload> => {
+  let json: string;
+  if (value.startsWith(COMPRESSED_PREFIX)) {
+    if (!isCompressionSupported()) throw new Error("This browser cannot open compressed share links.");
+    const bytes = await pipeThrough(fromBase64Url(value.slice(COMPRESSED_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    json = new TextDecoder().decode(bytes);
+  } else {
+    // Legacy links: URLSearchParams has usually decoded the JSON already
+    json = value.trim().startsWith('{') ? value : decodeURIComponent(value);
+  }
+
+  const decoded = JSON.parse(json);
+  if (!decoded || !Array.isArray(decoded.i)) throw new Error("Invalid share payload.");
+  return decoded as SharedInvoicePayload;
+};
+
+// Text fields only; the logo and seal images would not fit in a link
+const toSharedIssuer = (issuer: IssuerProfile, showCost: boolean): NonNullable<SharedInvoicePayload['lp']> => ({
+  n: issuer.companyName,
+  ...(issuer.registrationNumber ? { r: issuer.registrationNumber } : {}),
+  ...(issuer.representative ? { rp: issuer.representative } : {}),
+  ...(issuer.address ? { ad: issuer.address } : {}),
+  ...(showCost && issuer.bankAccount ? { b: issuer.bankAccount } : {})
+});
+
+const stripDataUrlPrefix = (url: string) => url.replace(/^data:image\/[a-z]+;base64,/, '');
+
+export const buildSharePayload = async (
+  invoice: InvoiceData,
+  unitPrice: number,
+  showCost: boolean,
+  rules: BillingRules,
+  issuer?: IssuerProfile
+): Promise<SharedInvoicePayload> => {
+  const parentOf = (meterName: string) => invoice.tenant.meters.find(m => m.name === meterName)?.parent;
+  const items: SharedInvoiceItem[] = await Promise.all(invoice.items.map(async (item) => {
+    let img = '';
+    if (item.isShared && item.thumbnailUrl) {
+      img = stripDataUrlPrefix(item.thumbnailUrl);
+    } else if (!item.imported && item.file.size > 0) {
+      img = await createThumbnail(item.file);
+    }
+
+    return {
+      n: item.meterName,
+      s: item.result.startReading.value,
+      e: item.result.endReading.value,
+      u: item.result.usage,
+      sd: normalizeReadingDate(item.result.startReading.date),
+      ed: normalizeReadingDate(item.result.endReading.date),
+      ...(item.previousUsage !== undefined ? { pu: item.previousUsage } : {}),
+      ...(parentOf(item.meterName) ? { pa: parentOf(item.meterName) } : {}),
+      ...(item.result.multiplier ? { mu: item.result.multiplier } : {}),
+      ...(item.result.rows?.length ? { dr: item.result.rows.map(r => [normalizeReadingDate(r.date), r.value] as [string, number]) } : {}),
+      ...(item.result.regions ? { rg: [toBoxArray(item.result.regions.start), toBoxArray(item.result.regions.end)] } : {}),
+      ...(item.imported ? { im: 1 as const } : {}),
+      ...(img ? { img } : {})
+    };
+  }));
+
+  return {
+    t: invoice.tenant.name,
+    ...(showCost ? { p: invoice.unitRate ?? unitPrice } : {}),
+    ...(showCost && invoice.tariff ? { tf: invoice.tariff } : {}),
+    ...(showCost && invoice.tenant.extraCharges?.length ? { x: invoice.tenant.extraCharges } : {}),
+    ...(showCost ? { bl: rules } : {}),
+    ...(invoice.tenant.vatExempt ? { vx: 1 as const } : {}),
+    ...(invoice.sharedItems?.length
+      ? { a: invoice.sharedItems.map(s => ({ n: s.meterName, m: s.method, sh: s.share, u: s.usage })) }
+      : {}),
+    ...(invoice.issued ? { no: invoice.issued.number, is: invoice.issued.issueDate, du: invoice.issued.dueDate } : {}),
+    ...(invoice.tenant.registrationNumber ? { br: invoice.tenant.registrationNumber } : {}),
+    ...(hasIssuerDetails(issuer) ? { lp: toSharedIssuer(issuer, showCost) } : {}),
+    i: items
+  };
+};
+
+export interface ShareLinkResult {
+  url: string;
+  omittedImages: number; // Thumbnails dropped to stay under the URL length limit
+}
+
+export const createShareLink = async (
+  invoice: InvoiceData,
+  unitPrice: number,
+  showCost: boolean,
+  rules: BillingRules,
+  issuer?: IssuerProfile
+): Promise<ShareLinkResult> => {
+  const payload = await buildSharePayload(invoice, unitPrice, showCost, rules, issuer);
+  const base = `${window.location.origin}${window.location.pathname}?share=`;
+
+  let omittedImages = 0;
+  let url = base + await encodeSharePayload(payload);
+
+  // Drop thumbnails from the end until the link fits
+  for (let i = payload.i.length - 1; i >= 0 && url.length > MAX_SHARE_URL_LENGTH; i--) {
+    if (!payload.i[i].img) continue;
+    delete payload.i[i].img;
+    omittedImages++;
+    url = base + await encodeSharePayload(payload);
+  }
+
+  if (url.length > MAX_SHARE_URL_LENGTH) {
+    throw new Error("Too many meters to fit in a share link.");
+  }
+
+  return { url, omittedImages };
+};
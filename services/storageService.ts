@@ -0,0 +1,196 @@
+import { AnalysisItem, BillingPeriod, IssuedInvoice, StoredAnalysisItem } from "../types";
+
+const DB_NAME = 'meter-bill-manager';
+const DB_VERSION = 2;
+const PERIODS_STORE = 'periods';
+const ITEMS_STORE = 'items';
+const INVOICES_STORE = 'invoices';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PERIODS_STORE)) {
+        db.createObjectStore(PERIODS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+        const items = db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+        items.createIndex('periodId', 'periodId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(INVOICES_STORE)) {
+        db.createObjectStore(INVOICES_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+
+// Default name for a new period, e.g. "2024-05"
+export const defaultPeriodName = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// --- Billing Periods ---
+
+export const listPeriods = async (): Promise<BillingPeriod[]> => {
+  const db = await openDb();
+  const periods = await promisify<BillingPeriod[]>(
+    db.transaction(PERIODS_STORE, 'readonly').objectStore(PERIODS_STORE).getAll()
+  );
+  // Newest first
+  return periods.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const savePeriod = async (period: BillingPeriod): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PERIODS_STORE, 'readwrite');
+  tx.objectStore(PERIODS_STORE).put(period);
+  await transactionDone(tx);
+};
+
+export const createPeriod = async (name: string): Promise<BillingPeriod> => {
+  const now = Date.now();
+  const period: BillingPeriod = {
+    id: `p-${now}-${Math.random().toString(36).substr(2, 5)}`,
+    name,
+    status: 'open',
+    createdAt: now,
+    updatedAt: now
+  };
+  await savePeriod(period);
+  return period;
+};
+
+// --- Analysis Items ---
+
+export const loadPeriodItems = async (periodId: string): Promise<StoredAnalysisItem[]> => {
+  const db = await openDb();
+  const index = db.transaction(ITEMS_STORE, 'readonly').objectStore(ITEMS_STORE).index('periodId');
+  const stored = await promisify<StoredAnalysisItem[]>(index.getAll(periodId));
+  return stored.sort((a, b) => a.order - b.order);
+};
+
+export const loadAllItems = async (): Promise<StoredAnalysisItem[]> => {
+  const db = await openDb();
+  return promisify<StoredAnalysisItem[]>(
+    db.transaction(ITEMS_STORE, 'readonly').objectStore(ITEMS_STORE).getAll()
+  );
+};
+
+// Replaces the stored items of a period with the given list
+export const savePeriodItems = async (periodId: string, items: AnalysisItem[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PERIODS_STORE, ITEMS_STORE], 'readwrite');
+  const store = tx.objectStore(ITEMS_STORE);
+
+  const existingKeys = await promisify(store.index('periodId').getAllKeys(periodId));
+  const keep = new Set(items.map(i => i.id));
+  existingKeys.forEach(key => {
+    if (!keep.has(key as string)) store.delete(key);
+  });
+
+  items.forEach((item, order) => {
+    const record: StoredAnalysisItem = {
+      id: item.id,
+      periodId,
+      order,
+      file: item.file,
+      // An in-flight or queued analysis cannot survive a reload, so store it as pending
+      status: item.status === 'analyzing' || item.status === 'queued' ? 'idle' : item.status,
+      result: item.result,
+      error: item.error,
+      assignment: item.assignment,
+      crop: item.crop,
+      suggestion: item.suggestion,
+      contentHash: item.contentHash,
+      imported: item.imported
+    };
+    store.put(record);
+  });
+
+  const periods = tx.objectStore(PERIODS_STORE);
+  const period = await promisify<BillingPeriod | undefined>(periods.get(periodId));
+  if (period) periods.put({ ...period, updatedAt: Date.now() });
+
+  await transactionDone(tx);
+};
+
+export const toAnalysisItem = (stored: StoredAnalysisItem): AnalysisItem => ({
+  id: stored.id,
+  file: stored.file,
+  status: stored.status,
+  result: stored.result,
+  error: stored.error,
+  assignment: stored.assignment,
+  crop: stored.crop,
+  suggestion: stored.suggestion,
+  contentHash: stored.contentHash,
+  imported: stored.imported,
+  // Imported readings have no photo to preview
+  previewUrl: stored.imported ? undefined : URL.createObjectURL(stored.file)
+});
+
+// --- Invoice Ledger ---
+
+export const listIssuedInvoices = async (): Promise<IssuedInvoice[]> => {
+  const db = await openDb();
+  const invoices = await promisify<IssuedInvoice[]>(
+    db.transaction(INVOICES_STORE, 'readonly').objectStore(INVOICES_STORE).getAll()
+  );
+  return invoices.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Entries are built inside the write transaction, so two tabs cannot take the same number and a
+// reissue either voids the old invoice and issues the new one, or changes nothing
+export const writeIssuedInvoices = async (build: (ledger: IssuedInvoice[]) => IssuedInvoice[]): Promise<IssuedInvoice[]> => {
+  const db = await openDb();
+  const tx = db.transaction(INVOICES_STORE, 'readwrite');
+  const store = tx.objectStore(INVOICES_STORE);
+  let entries: IssuedInvoice[];
+  try {
+    entries = build(await promisify<IssuedInvoice[]>(store.getAll()));
+  } catch (e) {
+    tx.abort();
+    throw e;
+  }
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+  return entries;
+};
+
+export const saveIssuedInvoice = async (invoice: IssuedInvoice): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(INVOICES_STORE, 'readwrite');
+  tx.objectStore(INVOICES_STORE).put(invoice);
+  await transactionDone(tx);
+};
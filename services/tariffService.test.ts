@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, Tariff } from '../types';
+import { DEFAULT_BILLING_RULES } from './billingRulesService';
+import {
+  DEFAULT_TARIFFS,
+  allocateByUsage,
+  calculateTariff,
+  calculateTenantCharges,
+  combineHourlyProfiles,
+  formatHours,
+  getBillingMonth,
+  getHourlyProfile,
+  getInvoiceTotals,
+  pickSeason
+} from './tariffService';
+
+const [sample, timeOfUse] = DEFAULT_TARIFFS;
+
+describe('getBillingMonth', () => {
+  it('takes the month of the end reading', () => {
+    expect(getBillingMonth('2024-05-20 13:00')).toBe(5);
+  });
+
+  it('counts a reading at 00:00 on the 1st towards the previous month', () => {
+    expect(getBillingMonth('2024-06-01 00:00')).toBe(5);
+    expect(getBillingMonth('2024-01-01 00:00')).toBe(12);
+  });
+});
+
+describe('pickSeason', () => {
+  it('falls back to the season without months', () => {
+    expect(pickSeason(sample, 8)?.name).toBe('Summer');
+    expect(pickSeason(sample, 1)?.name).toBe('Winter');
+    expect(pickSeason(sample, 5)?.name).toBe('Other');
+  });
+});
+
+describe('calculateTariff', () => {
+  it('charges each tier for the kWh that fall into it', () => {
+    const result = calculateTariff(sample, 450, 1);
+    expect(result.lines.map(l => [l.quantity, l.rate, l.amount])).toEqual([
+      [undefined, undefined, 7300],
+      [200, 120, 24000],
+      [200, 214.6, 42920],
+      [50, 307.3, 15365]
+    ]);
+    expect(result.energyCharge).toBe(82285);
+    expect(result.total).toBe(89585);
+  });
+
+  it('uses the season of the billing month', () => {
+    // Summer's first tier is 300 kWh wide
+    expect(calculateTariff(sample, 300, 8).lines).toHaveLength(2);
+    expect(calculateTariff(sample, 300, 1).lines).toHaveLength(3);
+  });
+
+  it('rounds each tier line down to the won', () => {
+    const tariff: Tariff = { id: 't', name: 'T', baseCharge: 0, seasons: [{ name: 'All', months: [], tiers: [{ upTo: null, rate: 107.7 }] }] };
+    expect(calculateTariff(tariff, 12.5, 5).total).toBe(1346);
+    expect(calculateTariff(tariff, 12.5, 5, { ...DEFAULT_BILLING_RULES, roundingScope: 'total' }).total).toBe(1346.25);
+  });
+
+  it('bills only the basic charge without usage', () => {
+    expect(calculateTariff(sample, 0, 5).total).toBe(7300);
+  });
+});
+
+describe('formatHours', () => {
+  it('joins consecutive hours and wraps past midnight', () => {
+    expect(formatHours([11, 13, 14, 15, 16, 17])).toBe('11–12, 13–18h');
+    expect(formatHours([0, 1, 2, 3, 4, 5, 6, 7, 22, 23])).toBe('22–8h');
+  });
+});
+
+describe('getHourlyProfile', () => {
+  const reading = (rows: [string, number][]): AnalysisResult => ({
+    startReading: { date: rows[0][0], value: rows[0][1] },
+    endReading: { date: rows[rows.length - 1][0], value: rows[rows.length - 1][1] },
+    usage: rows[rows.length - 1][1] - rows[0][1],
+    rows: rows.map(([date, value]) => ({ date, value }))
+  });
+
+  it('puts hourly rows in the hour they close', () => {
+    const profile = getHourlyProfile(reading([['2024-05-01 10:00', 100], ['2024-05-01 11:00', 130], ['2024-05-01 12:00', 140]]))!;
+    expect(profile.usage[10]).toBe(30);
+    expect(profile.usage[11]).toBe(10);
+    expect(profile.estimated).toBe(false);
+  });
+
+  it('spreads daily rows evenly over the day', () => {
+    const profile = getHourlyProfile(reading([['2024-05-01 00:00', 0], ['2024-05-02 00:00', 48]]))!;
+    expect(profile.usage).toEqual(new Array(24).fill(2));
+    expect(profile.estimated).toBe(true);
+  });
+
+  it('needs rows between the billed readings', () => {
+    expect(getHourlyProfile({ ...reading([['2024-05-01 00:00', 0], ['2024-06-01 00:00', 48]]), rows: undefined })).toBeUndefined();
+  });
+});
+
+describe('combineHourlyProfiles', () => {
+  it('scales each meter to its billed usage and spreads the rest by the measured shape', () => {
+    const evening = new Array(24).fill(0);
+    evening[18] = 5;
+    evening[19] = 5;
+    const profile = combineHourlyProfiles([
+      { usage: 100, profile: { usage: evening, estimated: false } },
+      { usage: 20 }
+    ]);
+    expect(profile.usage[18]).toBe(60);
+    expect(profile.usage[19]).toBe(60);
+    expect(profile.estimated).toBe(true);
+  });
+});
+
+describe('calculateTariff with time of use', () => {
+  const peakHours = new Array(24).fill(0);
+  [11, 13, 14].forEach(hour => { peakHours[hour] = 1; });
+  peakHours[3] = 1;
+
+  it('charges each band for the kWh used in its hours', () => {
+    const result = calculateTariff(timeOfUse, 400, 7, DEFAULT_BILLING_RULES, { usage: peakHours, estimated: false });
+    expect(result.season?.name).toBe('Summer');
+    expect(result.lines).toEqual([
+      { label: 'Basic charge', amount: 8320 },
+      { label: 'Peak load · 11–12, 13–18h', quantity: 300, rate: 230.4, amount: 69120 },
+      { label: 'Light load · other hours', quantity: 100, rate: 94.6, amount: 9460 }
+    ]);
+    expect(result.energyCharge).toBe(78580);
+  });
+
+  it('spreads usage evenly over the day without a profile and says so', () => {
+    const result = calculateTariff(timeOfUse, 240, 5);
+    expect(result.lines.slice(1).map(l => [l.label, l.quantity])).toEqual([
+      ['Peak load · 11–12, 13–18h (estimated)', 60],
+      ['Mid load · 8–11, 12–13, 18–22h (estimated)', 80],
+      ['Light load · other hours (estimated)', 100]
+    ]);
+  });
+
+  it('keeps the band quantities adding up to the usage', () => {
+    const result = calculateTariff(timeOfUse, 100, 5);
+    expect(result.lines.slice(1).reduce((acc, l) => acc + l.quantity!, 0)).toBeCloseTo(100, 2);
+  });
+});
+
+describe('calculateTenantCharges', () => {
+  it('rounds percentage discounts toward zero', () => {
+    const lines = calculateTenantCharges([
+      { id: 'a', label: 'Cleaning', type: 'fixed', value: 5000 },
+      { id: 'b', label: 'Discount', type: 'percent', value: -3 },
+      { id: 'c', label: 'Unused', type: 'fixed', value: 0 }
+    ], 10001);
+    expect(lines).toEqual([
+      { label: 'Cleaning', amount: 5000 },
+      { label: 'Discount (-3%)', amount: -300 }
+    ]);
+  });
+});
+
+describe('allocateByUsage', () => {
+  it('keeps the total exact and gives the remainder to the largest meter', () => {
+    expect(allocateByUsage(1000, [1, 1, 2])).toEqual([250, 250, 500]);
+    expect(allocateByUsage(1000, [1, 1, 1])).toEqual([334, 333, 333]);
+  });
+
+  it('puts everything on the first meter when nothing was used', () => {
+    expect(allocateByUsage(500, [0, 0])).toEqual([500, 0]);
+  });
+});
+
+describe('getInvoiceTotals', () => {
+  it('adds VAT on the rounded supply value', () => {
+    expect(getInvoiceTotals(89585.7)).toEqual({ supply: 89585, vatRate: 10, vat: 8958, total: 98543 });
+  });
+
+  it('bills VAT-exempt tenants without VAT', () => {
+    expect(getInvoiceTotals(89585.7, DEFAULT_BILLING_RULES, true)).toEqual({ supply: 89585, vatRate: 0, vat: 0, total: 89585 });
+  });
+
+  it('rounds supply and VAT to the configured unit', () => {
+    const rules = { ...DEFAULT_BILLING_RULES, roundingUnit: 10 as const, rounding: 'round' as const };
+    expect(getInvoiceTotals(1234.5, rules)).toEqual({ supply: 1230, vatRate: 10, vat: 120, total: 1350 });
+  });
+});
@@ -0,0 +1,322 @@
+import { AnalysisResult, BillingRules, ChargeLine, InvoiceTotals, Tariff, TariffSeason, TariffTier, TariffTimeBand, TenantCharge } from "../types";
+import { parseReadingDate } from "./dateService";
+import { DEFAULT_BILLING_RULES, roundAmount, roundLine } from "./billingRulesService";
+
+// Sample tariffs: progressive summer/winter blocks, and peak/mid/light-load time-of-use bands.
+// Rates are placeholders; edit them in Settings to match the lease.
+export const DEFAULT_TARIFFS: Tariff[] = [
+  {
+    id: 'tariff-sample',
+    name: 'Seasonal Tiered (Sample)',
+    baseCharge: 7300,
+    seasons: [
+      {
+        name: 'Summer',
+        months: [7, 8],
+        tiers: [
+          { upTo: 300, rate: 120 },
+          { upTo: 450, rate: 214.6 },
+          { upTo: null, rate: 307.3 }
+        ]
+      },
+      {
+        name: 'Winter',
+        months: [12, 1, 2],
+        tiers: [
+          { upTo: 200, rate: 120 },
+          { upTo: 400, rate: 214.6 },
+          { upTo: null, rate: 307.3 }
+        ]
+      },
+      {
+        name: 'Other',
+        months: [],
+        tiers: [
+          { upTo: 200, rate: 120 },
+          { upTo: 400, rate: 214.6 },
+          { upTo: null, rate: 307.3 }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'tariff-sample-tou',
+    name: 'Time-of-Use (Sample)',
+    baseCharge: 8320,
+    seasons: [
+      {
+        name: 'Summer',
+        months: [6, 7, 8],
+        tiers: [{ upTo: null, rate: 150 }],
+        timeBands: [
+          { name: 'Peak load', hours: [11, 13, 14, 15, 16, 17], rate: 230.4 },
+          { name: 'Mid load', hours: [8, 9, 10, 12, 18, 19, 20, 21], rate: 160.5 },
+          { name: 'Light load', hours: [], rate: 94.6 }
+        ]
+      },
+      {
+        name: 'Winter',
+        months: [11, 12, 1, 2],
+        tiers: [{ upTo: null, rate: 150 }],
+        timeBands: [
+          { name: 'Peak load', hours: [9, 10, 11, 16, 17, 18], rate: 204.3 },
+          { name: 'Mid load', hours: [8, 12, 13, 14, 15, 19, 20, 21], rate: 152.1 },
+          { name: 'Light load', hours: [], rate: 107.4 }
+        ]
+      },
+      {
+        name: 'Spring/Fall',
+        months: [],
+        tiers: [{ upTo: null, rate: 150 }],
+        timeBands: [
+          { name: 'Peak load', hours: [11, 13, 14, 15, 16, 17], rate: 160.6 },
+          { name: 'Mid load', hours: [8, 9, 10, 12, 18, 19, 20, 21], rate: 118.7 },
+          { name: 'Light load', hours: [], rate: 94.6 }
+        ]
+      }
+    ]
+  }
+];
+
+export const createEmptyTariff = (): Tariff => ({
+  id: `tariff-${Date.now()}`,
+  name: 'New Tariff',
+  baseCharge: 0,
+  seasons: [
+    { name: 'All Year', months: [], tiers: [{ upTo: null, rate: 150 }] }
+  ]
+});
+
+// Month (1-12) of the billing period, taken from the end reading date
+export const getBillingMonth = (endDate?: string): number => {
+  const time = endDate ? parseReadingDate(endDate) : null;
+  const date = time === null ? new Date() : new Date(time);
+  // A reading taken at 00:00 on the 1st closes the previous month
+  if (date.getDate() === 1 && date.getHours() === 0 && date.getMinutes() === 0) {
+    date.setDate(0);
+  }
+  return date.getMonth() + 1;
+};
+
+export const pickSeason = (tariff: Tariff, month: number): TariffSeason | undefined =>
+  tariff.seasons.find(s => s.months.includes(month)) || tariff.seasons.find(s => s.months.length === 0);
+
+const describeTier = (tier: TariffTier, from: number) =>
+  tier.upTo === null ? `Over ${from.toLocaleString()} kWh` : `${from.toLocaleString()}–${tier.upTo.toLocaleString()} kWh`;
+
+// "10–12, 13–17h"; a range may wrap past midnight, as in "22–8h"
+export const formatHours = (hours: number[]): string => {
+  const ranges: [number, number][] = [];
+  [...hours].sort((a, b) => a - b).forEach(hour => {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === hour) last[1] = hour + 1;
+    else ranges.push([hour, hour + 1]);
+  });
+  if (ranges.length > 1 && ranges[0][0] === 0 && ranges[ranges.length - 1][1] === 24) {
+    ranges[0][0] = ranges.pop()![0];
+  }
+  return `${ranges.map(([from, to]) => `${from}–${to % 24}`).join(', ')}h`;
+};
+
+// kWh used in each hour of the day, indexed 0-23
+export interface HourlyProfile {
+  usage: number[];
+  estimated: boolean; // Part of it was spread evenly over an interval longer than an hour
+}
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+// Splits the register increase between consecutive rows of the reading table over the hours
+// of the day it happened in. Rows further apart than an hour, such as daily rows, are spread
+// evenly over the hours between them. Only rows between the billed readings count.
+export const getHourlyProfile = (result: AnalysisResult): HourlyProfile | undefined => {
+  const start = parseReadingDate(result.startReading.date);
+  const end = parseReadingDate(result.endReading.date);
+  if (start === null || end === null) return undefined;
+
+  const rows = (result.rows || [])
+    .map(row => ({ time: parseReadingDate(row.date), value: row.value }))
+    .filter((row): row is { time: number; value: number } => row.time !== null && row.time >= start && row.time <= end)
+    .sort((a, b) => a.time - b.time);
+
+  const usage: number[] = new Array(24).fill(0);
+  let estimated = false;
+  for (let i = 1; i < rows.length; i++) {
+    const span = rows[i].time - rows[i - 1].time;
+    const used = rows[i].value - rows[i - 1].value;
+    if (span <= 0 || used <= 0) continue;
+    if (span > 3600000) estimated = true;
+    for (let time = rows[i - 1].time; time < rows[i].time;) {
+      const next = Math.min(new Date(time).setMinutes(60, 0, 0), rows[i].time);
+      usage[new Date(time).getHours()] += (used * (next - time)) / span;
+      time = next;
+    }
+  }
+  return sum(usage) > 0 ? { usage, estimated } : undefined;
+};
+
+// Profile of a tenant's billed kWh: each meter's profile scaled to the usage billed for it.
+// Usage without a profile, like shared-meter allocations, follows the shape of the measured
+// usage, or is spread evenly over the day when nothing was measured.
+export const combineHourlyProfiles = (parts: { usage: number; profile?: HourlyProfile }[]): HourlyProfile => {
+  const usage: number[] = new Array(24).fill(0);
+  let estimated = false;
+  let unmeasured = 0;
+  parts.forEach(part => {
+    if (!part.profile) {
+      unmeasured += part.usage;
+      return;
+    }
+    const total = sum(part.profile.usage);
+    part.profile.usage.forEach((u, hour) => { usage[hour] += (part.usage * u) / total; });
+    estimated = estimated || part.profile.estimated;
+  });
+
+  if (unmeasured > 0) {
+    const shape = sum(usage) > 0 ? [...usage] : new Array(24).fill(1);
+    const total = sum(shape);
+    shape.forEach((weight, hour) => { usage[hour] += (unmeasured * weight) / total; });
+    estimated = true;
+  }
+  return { usage, estimated };
+};
+
+export interface TariffCalculation {
+  season?: TariffSeason;
+  lines: ChargeLine[];
+  energyCharge: number;
+  total: number;
+}
+
+// Splits the usage across the bands by the hours it was used in. Hours outside every band go
+// to the band without hours, or to the first band when there is none.
+const chargeTimeBands = (
+  bands: TariffTimeBand[],
+  usage: number,
+  profile: HourlyProfile | undefined,
+  rules: BillingRules
+): ChargeLine[] => {
+  const measured = !!profile && sum(profile.usage) > 0;
+  const weights = measured ? profile.usage : new Array(24).fill(1);
+  const fallback = Math.max(bands.findIndex(b => b.hours.length === 0), 0);
+  const bandWeights = bands.map(() => 0);
+  weights.forEach((weight, hour) => {
+    const index = bands.findIndex(b => b.hours.includes(hour));
+    bandWeights[index === -1 ? fallback : index] += weight;
+  });
+
+  const totalWeight = sum(bandWeights);
+  const lastBand = bandWeights.reduce((last, weight, i) => (weight > 0 ? i : last), -1);
+  const estimated = !measured || profile.estimated;
+  const lines: ChargeLine[] = [];
+  let remaining = usage;
+
+  bands.forEach((band, i) => {
+    if (bandWeights[i] <= 0 || remaining <= 0) return;
+    // The last band takes the rounding remainder so the quantities add up to the usage
+    const quantity = i === lastBand ? remaining : parseFloat(((usage * bandWeights[i]) / totalWeight).toFixed(2));
+    remaining = parseFloat((remaining - quantity).toFixed(2));
+    if (quantity <= 0) return;
+    lines.push({
+      label: `${band.name} · ${band.hours.length > 0 ? formatHours(band.hours) : 'other hours'}${estimated ? ' (estimated)' : ''}`,
+      quantity,
+      rate: band.rate,
+      amount: roundLine(quantity * band.rate, rules)
+    });
+  });
+  return lines;
+};
+
+// Applies the progressive tiers of the matching season to the total usage
+const chargeTiers = (tiers: TariffTier[], usage: number, rules: BillingRules): ChargeLine[] => {
+  const lines: ChargeLine[] = [];
+  let remaining = usage;
+  let from = 0;
+
+  for (const tier of tiers) {
+    if (remaining <= 0) break;
+    const blockSize = tier.upTo === null ? remaining : Math.max(tier.upTo - from, 0);
+    const quantity = parseFloat(Math.min(remaining, blockSize).toFixed(2));
+    if (quantity > 0) {
+      lines.push({
+        label: describeTier(tier, from),
+        quantity,
+        rate: tier.rate,
+        amount: roundLine(quantity * tier.rate, rules)
+      });
+    }
+    remaining = parseFloat((remaining - quantity).toFixed(2));
+    if (tier.upTo !== null) from = tier.upTo;
+  }
+  return lines;
+};
+
+// Charges the total usage by the tiers or, when it has time bands, by the time of use of the
+// matching season. `profile` gives the hours the usage fell in; without it, usage is spread
+// evenly over the day.
+export const calculateTariff = (
+  tariff: Tariff,
+  usage: number,
+  month: number,
+  rules: BillingRules = DEFAULT_BILLING_RULES,
+  profile?: HourlyProfile
+): TariffCalculation => {
+  const season = pickSeason(tariff, month);
+  const lines = season?.timeBands?.length
+    ? chargeTimeBands(season.timeBands, usage, profile, rules)
+    : chargeTiers(season?.tiers || [], usage, rules);
+
+  const energyCharge = lines.reduce((acc, l) => acc + l.amount, 0);
+  const baseCharge = roundLine(tariff.baseCharge, rules);
+  if (baseCharge > 0) {
+    lines.unshift({ label: 'Basic charge', amount: baseCharge });
+  }
+
+  return {
+    season,
+    lines,
+    energyCharge,
+    total: energyCharge + baseCharge
+  };
+};
+
+// Splits an amount across meters in proportion to usage, keeping the total exact.
+// Shares are multiples of unit; the remainder goes to the largest meter.
+export const allocateByUsage = (amount: number, usages: number[], unit: number = 1): number[] => {
+  const totalUsage = usages.reduce((a, b) => a + b, 0);
+  if (totalUsage <= 0) return usages.map((_, i) => (i === 0 ? amount : 0));
+
+  const shares = usages.map(u => Math.floor((amount * u) / totalUsage / unit) * unit);
+  const remainder = amount - shares.reduce((a, b) => a + b, 0);
+  if (shares.length > 0) {
+    const largest = usages.indexOf(Math.max(...usages));
+    shares[largest] += remainder;
+  }
+  return shares;
+};
+
+// Tenant-specific rows: fixed fees as-is, percentages of the electricity charge
+export const calculateTenantCharges = (
+  charges: TenantCharge[] | undefined,
+  electricityCharge: number,
+  rules: BillingRules = DEFAULT_BILLING_RULES
+): ChargeLine[] =>
+  (charges || []).filter(c => c.value !== 0).map(charge => charge.type === 'fixed'
+    ? { label: charge.label, amount: roundLine(charge.value, rules) }
+    : {
+        label: `${charge.label} (${charge.value > 0 ? '+' : ''}${charge.value}%)`,
+        // Round toward zero so discounts never exceed the stated percentage
+        amount: roundLine((electricityCharge * charge.value) / 100, { ...rules, rounding: 'floor' })
+      });
+
+// Supply value rounded per the rules, plus VAT unless the tenant is exempt
+export const getInvoiceTotals = (
+  supplyValue: number,
+  rules: BillingRules = DEFAULT_BILLING_RULES,
+  vatExempt: boolean = false
+): InvoiceTotals => {
+  const supply = roundAmount(supplyValue, rules);
+  const vatRate = vatExempt ? 0 : rules.vatRate;
+  const vat = roundAmount((supply * vatRate) / 100, rules);
+  return { supply, vatRate, vat, total: supply + vat };
+};
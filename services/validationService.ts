@@ -0,0 +1,189 @@
+import { AnalysisResult, BillingWindow, ContinuityIssue, MeterHistoryEntry, ReadingConfidence, ReadingData, ReadingWarning } from "../types";
+import { calculateUsage } from "./meterService";
+import { formatReadingDate, isSameDay, normalizeReadingDate, parseReadingDate } from "./dateService";
+
+// Readings are compared with a small tolerance to absorb rounding in the source software
+const VALUE_TOLERANCE = 0.01;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Anomaly thresholds
+const OUTLIER_FACTOR = 3; // usage above 3x or below 1/3 of the usual month is flagged
+const MIN_PERIOD_DAYS = 27;
+const MAX_PERIOD_DAYS = 32;
+const MIN_CONFIDENCE = 0.7;
+
+const integerDigits = (value: number) => Math.trunc(Math.abs(value)).toString().length;
+const decimalPlaces = (value: number) => (value.toString().split('.')[1] || '').length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Flags readings that are probably misread. History is optional; without it the
+// usage outlier check is skipped. With a billing window, the reading dates must match it.
+export const detectAnomalies = (result: AnalysisResult, history?: MeterHistoryEntry[], window?: BillingWindow): ReadingWarning[] => {
+  const warnings: ReadingWarning[] = [];
+  const { startReading: start, endReading: end } = result;
+
+  if (result.usage < 0) {
+    warnings.push({
+      type: 'reversed',
+      message: `End reading ${end.value.toLocaleString()} is lower than start reading ${start.value.toLocaleString()}. ` +
+        "Negative usage cannot be invoiced; correct the readings."
+    });
+  }
+
+  // A misplaced decimal point makes one value roughly 10x the other
+  const low = Math.min(Math.abs(start.value), Math.abs(end.value));
+  const high = Math.max(Math.abs(start.value), Math.abs(end.value));
+  const magnitudeJump = integerDigits(start.value) !== integerDigits(end.value) && low > 0 && high / low >= 5;
+  if (magnitudeJump || Math.abs(decimalPlaces(start.value) - decimalPlaces(end.value)) > 1) {
+    warnings.push({
+      type: 'decimal',
+      message: `Start (${start.value}) and end (${end.value}) have different digit counts; check the decimal point.`
+    });
+  }
+
+  const startTime = parseReadingDate(start.date);
+  const endTime = parseReadingDate(end.date);
+  if (startTime === null || endTime === null) {
+    warnings.push({ type: 'date_span', message: "Could not read the start or end date." });
+  } else if (endTime <= startTime) {
+    warnings.push({ type: 'date_span', message: `End date ${formatReadingDate(end.date)} is not after start date ${formatReadingDate(start.date)}.` });
+  } else {
+    const days = (endTime - startTime) / ONE_DAY_MS;
+    if (days < MIN_PERIOD_DAYS || days > MAX_PERIOD_DAYS) {
+      warnings.push({
+        type: 'date_span',
+        message: `Readings span ${parseFloat(days.toFixed(1))} days, not a full month.`
+      });
+    }
+  }
+
+  if (window) {
+    const mismatches = ([
+      ['Start', start.date, window.start],
+      ['End', end.date, window.end]
+    ] as const).filter(([, date, expected]) => !isSameDay(date, expected));
+    if (mismatches.length > 0) {
+      warnings.push({
+        type: 'window_mismatch',
+        message: mismatches.map(([label, date, expected]) => `${label} reading is dated ${formatReadingDate(date)}, billing window expects ${expected}`).join('; ') + '.'
+      });
+    }
+  }
+
+  const pastUsages = (history || []).map(h => h.result.usage).filter(u => u > 0);
+  if (pastUsages.length > 0) {
+    const usual = median(pastUsages);
+    if (result.usage > usual * OUTLIER_FACTOR || result.usage < usual / OUTLIER_FACTOR) {
+      warnings.push({
+        type: 'usage_outlier',
+        message: `Usage ${result.usage.toLocaleString()} kWh is far from the usual ${parseFloat(usual.toFixed(2)).toLocaleString()} kWh.`
+      });
+    }
+  }
+
+  // A cumulative register never goes down from one row to the next
+  const rows = result.rows || [];
+  const drops = rows.filter((row, i) => i > 0 && row.value < rows[i - 1].value - VALUE_TOLERANCE);
+  if (drops.length > 0) {
+    const first = rows.indexOf(drops[0]);
+    warnings.push({
+      type: 'non_monotonic',
+      message: `Daily readings go down at ${drops[0].date} (${rows[first - 1].value.toLocaleString()} → ${drops[0].value.toLocaleString()})` +
+        (drops.length > 1 ? ` and ${drops.length - 1} other row(s).` : '.')
+    });
+  }
+
+  const confidence = result.confidence;
+  if (confidence) {
+    const lowFields = ([
+      ['start value', confidence.startValue],
+      ['end value', confidence.endValue],
+      ['start date', confidence.startDate],
+      ['end date', confidence.endDate]
+    ] as const).filter(([, c]) => c !== undefined && c < MIN_CONFIDENCE).map(([name]) => name);
+
+    if (lowFields.length > 0) {
+      warnings.push({ type: 'low_confidence', message: `Low model confidence for ${lowFields.join(', ')}.` });
+    }
+  }
+
+  return warnings;
+};
+
+// Common final step for every extraction backend. History-based checks are
+// added later by the caller once the meter is known.
+export const createAnalysisResult = (
+  startReading: ReadingData,
+  endReading: ReadingData,
+  confidence?: ReadingConfidence,
+  rows?: ReadingData[]
+): AnalysisResult => {
+  const start = { date: normalizeReadingDate(startReading.date), value: Number(startReading.value) };
+  const end = { date: normalizeReadingDate(endReading.date), value: Number(endReading.value) };
+  const result: AnalysisResult = {
+    startReading: start,
+    endReading: end,
+    // Raw register difference; the meter's CT multiplier is applied once it is assigned
+    usage: calculateUsage(start.value, end.value),
+    confidence,
+    ...(rows && rows.length > 0 ? { rows: rows.map(r => ({ date: normalizeReadingDate(r.date), value: Number(r.value) })) } : {})
+  };
+  result.warnings = detectAnomalies(result);
+  return result;
+};
+
+// Negative usage cannot be confirmed away, only corrected
+export const hasNegativeUsage = (result?: AnalysisResult) => !!result && result.usage < 0;
+
+// Flagged results stay out of invoices until someone confirms them
+export const needsReview = (result?: AnalysisResult) =>
+  !!result && (hasNegativeUsage(result) || (!!result.warnings && result.warnings.length > 0 && !result.confirmed));
+
+// For a cumulative meter this month's start must equal last month's end
+export const checkContinuity = (result: AnalysisResult, previous?: MeterHistoryEntry): ContinuityIssue[] => {
+  if (!previous) return [];
+
+  const issues: ContinuityIssue[] = [];
+  const prevEnd = previous.result.endReading;
+  const start = result.startReading;
+  const diff = parseFloat((start.value - prevEnd.value).toFixed(2));
+
+  if (diff < -VALUE_TOLERANCE) {
+    issues.push({
+      type: 'backwards',
+      message: `Start reading ${start.value.toLocaleString()} is lower than ${previous.periodName}'s end reading ${prevEnd.value.toLocaleString()}.`
+    });
+  } else if (diff > VALUE_TOLERANCE) {
+    issues.push({
+      type: 'mismatch',
+      message: `Start reading is ${diff.toLocaleString()} higher than ${previous.periodName}'s end reading ${prevEnd.value.toLocaleString()}.`
+    });
+  }
+
+  const prevEndTime = parseReadingDate(prevEnd.date);
+  const startTime = parseReadingDate(start.date);
+  if (prevEndTime !== null && startTime !== null && Math.abs(startTime - prevEndTime) >= ONE_DAY_MS) {
+    issues.push({
+      type: 'gap',
+      message: `Period starts ${formatReadingDate(start.date)} but ${previous.periodName} ended ${formatReadingDate(prevEnd.date)}.`
+    });
+  }
+
+  return issues;
+};
+
+// Replaces the start reading with last period's end reading and recalculates usage
+export const applyPreviousEnd = (result: AnalysisResult, previous: MeterHistoryEntry): AnalysisResult => {
+  const startReading = { ...previous.result.endReading };
+  return {
+    ...result,
+    startReading,
+    usage: calculateUsage(startReading.value, result.endReading.value, result.multiplier),
+    startFromHistory: true
+  };
+};
@@ -3,10 +3,86 @@ export interface ReadingData {
   value: number;
 }
 
+// Model-reported confidence (0-1) for each extracted field
+export interface ReadingConfidence {
+  startValue?: number;
+  endValue?: number;
+  startDate?: number;
+  endDate?: number;
+}
+
+export type ReadingWarningType = 'reversed' | 'usage_outlier' | 'date_span' | 'decimal' | 'low_confidence' | 'non_monotonic' | 'window_mismatch';
+
+export interface ReadingWarning {
+  type: ReadingWarningType;
+  message: string;
+}
+
+// Rectangle in fractions (0-1) of the full image, origin top-left
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where the billed rows were found in the screenshot
+export interface ReadingRegions {
+  start?: BoundingBox;
+  end?: BoundingBox;
+}
+
 export interface AnalysisResult {
   startReading: ReadingData;
   endReading: ReadingData;
-  usage: number;
+  usage: number; // Billed kWh, i.e. register difference × multiplier
+  multiplier?: number; // CT ratio applied to the register values (default 1)
+  rawUnit?: string; // Unit of the register values, when not kWh
+  startFromHistory?: boolean; // Start reading was carried over from last period's end reading
+  confidence?: ReadingConfidence;
+  warnings?: ReadingWarning[];
+  confirmed?: boolean; // A reviewer accepted the reading despite its warnings
+  model?: string; // Model or engine that produced the reading
+  rows?: ReadingData[]; // Every row of the reading table, oldest first
+  regions?: ReadingRegions;
+  meterLabel?: string; // Meter name or ID shown on the screenshot
+}
+
+export type ExtractorId = 'gemini' | 'local-ocr' | 'mock';
+
+export interface ModelConfig {
+  name: string;
+  timeoutMs: number;
+}
+
+// Ordered model chain: each model is retried with backoff on 429/503, then the next one is tried
+export interface ModelPolicy {
+  models: ModelConfig[];
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // A retry-after longer than this skips to the next model
+}
+
+// Dates (YYYY-MM-DD) of the start and end readings, each taken at 00:00.
+// A 15th-to-14th lease is { start: '2024-05-15', end: '2024-06-15' }.
+export interface BillingWindow {
+  start: string;
+  end: string;
+}
+
+// Settings passed from the UI to whichever extractor runs
+export interface ExtractorOptions {
+  modelPolicy?: ModelPolicy;
+  window?: BillingWindow; // Rows to bill; the most recent complete month when omitted
+  crop?: BoundingBox; // Only read this part of the image
+  signal?: AbortSignal; // Aborted when the user cancels the item
+  beforeRequest?: () => Promise<void>; // Waits for the queue's request budget; awaited before every API request
+}
+
+export interface QueueSettings {
+  concurrency: number;
+  requestsPerMinute: number;
+  maxAttempts: number; // Including the first try; transient failures are re-queued until this is reached
 }
 
 export interface GeminiResponseSchema {
@@ -18,12 +94,131 @@ export interface GeminiResponseSchema {
     date: string;
     value: number;
   };
+  confidence?: ReadingConfidence;
+  rows?: ReadingData[];
+  startBox?: number[]; // [ymin, xmin, ymax, xmax] scaled 0-1000
+  endBox?: number[];
+  meterLabel?: string;
+}
+
+// Progressive block: usage up to `upTo` kWh (cumulative) is charged at `rate` per kWh
+export interface TariffTier {
+  upTo: number | null; // null = no upper limit
+  rate: number;
+}
+
+// Time-of-use band: kWh used in these hours of the day is charged at `rate` per kWh
+export interface TariffTimeBand {
+  name: string; // e.g. "Peak load"
+  hours: number[]; // 0-23, hour starting at; a band with no hours covers all other hours
+  rate: number;
+}
+
+export interface TariffSeason {
+  name: string; // e.g. "Summer"
+  months: number[]; // 1-12; a season with no months is the fallback for any other month
+  tiers: TariffTier[];
+  timeBands?: TariffTimeBand[]; // When set, usage is charged by time of day instead of by tier
+}
+
+export interface Tariff {
+  id: string;
+  name: string;
+  baseCharge: number; // Fixed monthly basic charge (₩)
+  seasons: TariffSeason[];
+}
+
+// One row of the cost breakdown shown on the invoice
+export interface ChargeLine {
+  label: string;
+  quantity?: number; // kWh
+  rate?: number; // per kWh, in the billing currency
+  amount: number;
+}
+
+// Extra invoice row agreed in a tenant's contract
+export interface TenantCharge {
+  id: string;
+  label: string; // e.g. "Common-area maintenance", "Long-term discount"
+  type: 'fixed' | 'percent';
+  value: number; // ₩ for fixed, % of the electricity charge for percent (negative = discount)
+}
+
+export interface MeterDefinition {
+  name: string;
+  parent?: string; // Upstream meter of the same tenant; its billable usage excludes this meter
+  multiplier?: number; // CT ratio; billed kWh = register difference × multiplier (default 1)
+  unit?: string; // Unit of the raw register shown on screen (default "kWh")
 }
 
 export interface Tenant {
   id: string;
   name: string;
-  meters: string[]; // List of pre-defined meter names for this tenant
+  meters: MeterDefinition[]; // Pre-defined meters for this tenant
+  tariffId?: string; // Billed with the global flat rate when unset
+  rateOverride?: number; // Negotiated flat rate (₩/kWh); takes precedence over tariffId
+  extraCharges?: TenantCharge[];
+  floorArea?: number; // m², used to split shared meters
+  headcount?: number; // used to split shared meters
+  billingDay?: number; // Lease cycle starts on this day of the month (e.g. 15); calendar month when unset
+  paymentTermDays?: number; // Invoices are due this many days after issue
+  registrationNumber?: string; // Business registration number (사업자등록번호), "123-45-67890"
+  vatExempt?: boolean; // Billed without VAT
+}
+
+export type AllocationMethod = 'area' | 'headcount' | 'usage' | 'equal';
+
+// A building meter (lobby, elevators, HVAC) whose usage is split among tenants
+export interface SharedMeter {
+  id: string;
+  name: string;
+  method: AllocationMethod;
+  tenantIds: string[]; // Participating tenants; empty = all tenants
+}
+
+export interface BuildingConfig {
+  masterMeter: string; // Name of the master meter reading, '' when there is none
+  sharedMeters: SharedMeter[];
+  invoicePrefix?: string; // Invoice number prefix; {YYYY} and {YY} are replaced with the issue year
+}
+
+export type RoundingMode = 'floor' | 'round' | 'ceil';
+
+// How charges are rounded, taxed and displayed
+export interface BillingRules {
+  vatRate: number; // percent
+  rounding: RoundingMode;
+  roundingScope: 'line' | 'total'; // Round every charge line, or only the supply value and VAT
+  roundingUnit: 1 | 10; // Round to the won or to 10 won
+  currency: string; // ISO 4217 code, e.g. "KRW"
+  locale: string; // BCP 47 tag used for number formatting, e.g. "ko-KR"
+}
+
+// Landlord details printed on every invoice as the supplier
+export interface IssuerProfile {
+  companyName: string;
+  registrationNumber: string; // 사업자등록번호, "123-45-67890"
+  representative: string; // 대표자
+  address: string;
+  bankAccount: string; // Free text, e.g. "KB국민은행 123456-01-234567 (예금주 홍길동)"
+  logo?: string; // PNG data URL
+  stamp?: string; // PNG data URL of the company seal (직인)
+}
+
+// A tenant's share of one shared meter
+export interface SharedAllocationLine {
+  meterName: string;
+  method: AllocationMethod;
+  share: number; // 0-1
+  usage: number; // allocated kWh
+  cost: number;
+}
+
+export interface Reconciliation {
+  masterUsage: number;
+  subMeterUsage: number; // All tenant meters + shared meters
+  loss: number; // masterUsage - subMeterUsage
+  lossPercent: number;
 }
 
 export interface MeterAssignment {
@@ -31,14 +226,208 @@ export interface MeterAssignment {
   meterName: string; // e.g., "1F AC", "Server Room"
 }
 
+// Tenant/meter proposed from the meter label on screen or the file name
+export interface AssignmentSuggestion {
+  assignment: MeterAssignment;
+  score: number; // 0-1
+  source: 'label' | 'filename' | 'alias';
+  ambiguous?: boolean; // Another meter scored almost as well
+  applied?: boolean; // Assigned automatically; otherwise left for manual review
+}
+
+// Labels a reviewer has assigned before, keyed by normalized label
+export type MeterAliases = Record<string, MeterAssignment>;
+
+// Which columns of a metering-software export hold the readings, by header name
+export interface ImportColumnMapping {
+  timestamp: string;
+  value: string;
+  meterId?: string; // Absent for single-meter exports
+}
+
+// Saved mappings, keyed by the export's header row so each format is mapped once
+export type ImportMappings = Record<string, ImportColumnMapping>;
+
 export interface AnalysisItem {
   id: string;
   file: File;
-  status: 'idle' | 'analyzing' | 'success' | 'error';
+  status: 'idle' | 'queued' | 'analyzing' | 'success' | 'error';
   result?: AnalysisResult;
   error?: string;
   assignment: MeterAssignment;
   isShared?: boolean; // Flag to indicate if this item came from a shared link
   thumbnailUrl?: string; // Store base64 thumbnail for shared view
   previewUrl?: string; // Store object URL for local preview
+  previousUsage?: number; // Last month's usage carried in a shared link
+  crop?: BoundingBox; // User-selected area the extraction was limited to
+  suggestion?: AssignmentSuggestion;
+  contentHash?: string; // SHA-256 of the file, to catch the same screenshot or log uploaded twice
+  imported?: boolean; // Readings came from a CSV/Excel export instead of a photo
+}
+
+// read: one confirmed reading; pending: its reading is not analyzed or still flagged;
+// missing: no item assigned; duplicate: several items assigned to the same meter
+export type MeterCheckStatus = 'read' | 'pending' | 'missing' | 'duplicate';
+
+// One configured meter in the pre-invoice checklist
+export interface MeterCheck {
+  tenantId: string;
+  tenantName: string;
+  meterName: string;
+  status: MeterCheckStatus;
+  itemIds: string[];
+}
+
+export interface InvoiceChecklist {
+  meters: MeterCheck[];
+  unassignedIds: string[]; // Items with no tenant or meter
+  duplicateImages: string[][]; // Groups of items whose image files are identical
+  issueCount: number;
+  issueKeys: string[]; // Stable ids of the open issues; an override only covers the issues it was given for
+}
+
+export interface InvoiceLineItem {
+  meterName: string;
+  result: AnalysisResult;
+  file: File;
+  cost: number;
+  isShared?: boolean;
+  thumbnailUrl?: string;
+  imported?: boolean;
+  history?: MeterHistoryEntry[]; // Earlier periods, oldest first
+  previousUsage?: number;
+  netUsage: number; // Billable usage after subtracting downstream sub-meters
+}
+
+export interface InvoiceData {
+  tenant: Tenant;
+  items: InvoiceLineItem[];
+  sharedItems?: SharedAllocationLine[];
+  totalUsage: number;
+  totalCost: number;
+  unitRate?: number; // Flat ₩/kWh used for this tenant (global or negotiated)
+  tariff?: Tariff;
+  seasonName?: string;
+  charges?: ChargeLine[]; // Tariff calculation breakdown
+  adjustments?: ChargeLine[]; // Tenant fixed fees and percentage discounts/surcharges
+  issued?: InvoiceIssue; // Unset while the invoice is a draft
+  changedSinceIssue?: boolean; // Current readings, rates or rules no longer give the issued figures
+  totals: InvoiceTotals;
+}
+
+export interface InvoiceTotals {
+  supply: number;
+  vatRate: number; // percent; 0 for VAT-exempt tenants
+  vat: number;
+  total: number;
+}
+
+// Reference printed on an issued invoice
+export interface InvoiceIssue {
+  number: string; // e.g. "INV-2024-0007"
+  issueDate: string; // YYYY-MM-DD
+  dueDate: string;
+  totalCost?: number; // Supply value when issued, to spot readings changed afterwards
+  rules?: BillingRules; // Rules the amounts were calculated with
+  issuer?: IssuerProfile; // Supplier details printed on the invoice
+}
+
+// Figures of an invoice as issued; the issued view and PDF are drawn from this copy
+export type IssuedInvoiceCopy = Omit<InvoiceData, 'issued' | 'changedSinceIssue'>;
+
+// Ledger entry of an issued invoice. Numbers are never reused; a voided invoice keeps its number.
+export interface IssuedInvoice extends InvoiceIssue {
+  id: string;
+  prefix: string; // Resolved prefix the sequence counts within, e.g. "INV-2024-"
+  sequence: number;
+  periodId: string;
+  periodName: string;
+  tenantId: string;
+  tenantName: string;
+  totalUsage: number;
+  totalCost: number;
+  totalDue?: number; // Including VAT, as issued
+  status: 'issued' | 'void';
+  createdAt: number;
+  voidedAt?: number;
+  voidReason?: string;
+  replaces?: string; // Number of the voided invoice this one reissues
+  replacedBy?: string;
+  invoice: IssuedInvoiceCopy; // The invoice as issued; it is shown and exported from this copy
+}
+
+// Compact payload carried in the `?share=` link for the tenant Reader View.
+// Keys are kept to one or two letters to keep the URL short.
+export interface SharedInvoiceItem {
+  n: string;   // meter name
+  s: number;   // start value
+  e: number;   // end value
+  u: number;   // usage
+  sd: string;  // start date
+  ed: string;  // end date
+  img?: string; // base64 JPEG thumbnail (no data: prefix)
+  pu?: number;  // previous period usage
+  pa?: string;  // parent meter name
+  mu?: number;  // CT multiplier, when not 1
+  dr?: [string, number][]; // daily reading rows (date, value)
+  im?: 1;       // readings were imported from a meter log, so there is no photo
+  rg?: (number[] | null)[]; // start and end row regions as [x, y, width, height]
+}
+
+export interface SharedInvoicePayload {
+  t: string;   // tenant name
+  p?: number;  // unit price, only present when cost is shown
+  tf?: Tariff; // tenant tariff, only present when cost is shown
+  x?: TenantCharge[]; // tenant extra charges, only present when cost is shown
+  a?: { n: string; m: AllocationMethod; sh: number; u: number }[]; // shared meter allocations
+  no?: string; // invoice number, issue date and due date, once issued
+  is?: string;
+  du?: string;
+  br?: string; // tenant business registration number
+  vx?: 1; // tenant is VAT-exempt
+  bl?: BillingRules; // rounding, VAT and currency, only present when cost is shown
+  lp?: { n: string; r?: string; rp?: string; ad?: string; b?: string }; // issuer text fields; logo and stamp are left out
+  i: SharedInvoiceItem[];
+}
+
+export interface BillingPeriod {
+  id: string;
+  name: string; // e.g. "2024-05"
+  status: 'open' | 'archived';
+  createdAt: number;
+  updatedAt: number;
+  window?: BillingWindow; // Billed dates for this run; the most recent complete month when unset
+}
+
+// Shape of an AnalysisItem as persisted in IndexedDB (object URLs are not stored)
+export interface StoredAnalysisItem {
+  id: string;
+  periodId: string;
+  order: number;
+  file: File;
+  status: AnalysisItem['status'];
+  result?: AnalysisResult;
+  error?: string;
+  assignment: MeterAssignment;
+  crop?: BoundingBox;
+  suggestion?: AssignmentSuggestion;
+  contentHash?: string;
+  imported?: boolean;
+}
+
+// One past reading of a meter, taken from an earlier billing period
+export interface MeterHistoryEntry {
+  periodId: string;
+  periodName: string;
+  result: AnalysisResult;
+}
+
+// Keyed by tenant + meter name (see getMeterKey in services/historyService.ts)
+export type MeterHistory = Record<string, MeterHistoryEntry[]>;
+
+export type ContinuityIssueType = 'mismatch' | 'backwards' | 'gap';
+
+export interface ContinuityIssue {
+  type: ContinuityIssueType;
+  message: string;
 }
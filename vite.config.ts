@@ -1,7 +1,47 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Files served from node_modules in dev and copied into the build at these paths, so the app
+// needs no CDN: Tesseract's worker, WASM core and Korean/English data for local OCR
+// (services/localOcrService.ts), and NanumGothic for PDF invoices (services/pdfService.ts).
+const NODE_MODULE_ASSETS: Record<string, string> = {
+  'tesseract/worker.min.js': 'tesseract.js/dist/worker.min.js',
+  ...Object.fromEntries(['', 'simd-', 'relaxedsimd-'].map(variant => {
+    const name = `tesseract-core-${variant}lstm.wasm.js`;
+    return [`tesseract/core/${name}`, `tesseract.js-core/${name}`];
+  })),
+  ...Object.fromEntries(['kor', 'eng'].map(lang =>
+    [`tesseract/lang/${lang}.traineddata.gz`, `@tesseract.js-data/${lang}/4.0.0_best_int/${lang}.traineddata.gz`]
+  )),
+  'fonts/NanumGothic-Regular.ttf': '@kfonts/nanum-gothic/src/NanumGothic.ttf',
+  'fonts/NanumGothic-Bold.ttf': '@kfonts/nanum-gothic/src/NanumGothicBold.ttf'
+};
+
+const CONTENT_TYPES: Record<string, string> = { '.js': 'text/javascript', '.ttf': 'font/ttf' };
+
+const nodeModuleAssets = (): Plugin => {
+  const source = (name: string) => path.resolve(__dirname, 'node_modules', NODE_MODULE_ASSETS[name]);
+  return {
+    name: 'node-module-assets',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const name = (req.url || '').split('?')[0].replace(/^\//, '');
+        if (!NODE_MODULE_ASSETS[name]) return next();
+        // Served as-is; the OCR worker unpacks the .gz language data itself
+        res.setHeader('Content-Type', CONTENT_TYPES[path.extname(name)] || 'application/octet-stream');
+        fs.createReadStream(source(name)).pipe(res);
+      });
+    },
+    generateBundle() {
+      Object.keys(NODE_MODULE_ASSETS).forEach(name => {
+        this.emitFile({ type: 'asset', fileName: name, source: fs.readFileSync(source(name)) });
+      });
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +49,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), nodeModuleAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)